@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './storage.js';
+import type { AdminAlertsConfig } from './types.js';
+
+// ========== ADMIN ALERTS ==========
+// Aviso em texto para os administradores (config 'alerts') quando uma execução falha
+// Avisos iguais dentro de 'dedupMinutes' são descartados; sem WhatsApp, o aviso vai para arquivo
+
+export interface AdminAlert {
+  key: string;           // Identifica avisos repetidos (ex: whatsapp-disconnected, capture-failed:<scheduleId>)
+  scheduleName: string;
+  error: string;
+  groups: string[];      // Grupos afetados
+}
+
+type SendTextFn = (recipient: string, text: string) => Promise<unknown>;
+
+const MAX_LISTED_GROUPS = 5;
+
+// Montar texto do aviso
+export function formatAdminAlert(alert: AdminAlert, timezone: string): string {
+  const time = new Intl.DateTimeFormat('pt-BR', {
+    timeZone: timezone,
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date());
+
+  const listed = alert.groups.slice(0, MAX_LISTED_GROUPS).join(', ');
+  const more = alert.groups.length > MAX_LISTED_GROUPS ? ` e mais ${alert.groups.length - MAX_LISTED_GROUPS}` : '';
+
+  return [
+    '⚠️ *Falha no envio automático*',
+    `Schedule: ${alert.scheduleName}`,
+    `Erro: ${alert.error}`,
+    `Grupos afetados (${alert.groups.length}): ${listed}${more}`,
+    `Horário: ${time}`,
+  ].join('\n');
+}
+
+class AdminAlerts {
+  private readonly statePath = dataPath('admin-alerts-state.json');
+
+  // Verificar e registrar o envio (estado em arquivo, compartilhado entre processos)
+  // Com lock, verificação e registro são atômicos: o mesmo aviso não sai pelos dois processos
+  private shouldSend(key: string, dedupMinutes: number): boolean {
+    return withFileLock(this.statePath, () => {
+      const state = readJsonFile<Record<string, string>>(this.statePath, {});
+      const last = state[key] ? new Date(state[key]).getTime() : 0;
+
+      if (Date.now() - last < dedupMinutes * 60 * 1000) {
+        return false;
+      }
+
+      state[key] = new Date().toISOString();
+      writeJsonFile(this.statePath, state);
+      return true;
+    });
+  }
+
+  // Gravar aviso no arquivo de fallback
+  private writeFallback(text: string, config: AdminAlertsConfig): void {
+    const file = path.resolve(config.fallbackFile || dataPath('admin-alerts.log'));
+
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.appendFileSync(file, `[${new Date().toISOString()}] ${text.replace(/\n/g, ' | ')}\n`);
+      logger.warn('Aviso para administradores gravado em arquivo', { file });
+    } catch (error) {
+      logger.error('Erro ao gravar aviso para administradores', {
+        file,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  // Enviar aviso (whatsappDown: grava direto no arquivo, sem tentar o WhatsApp)
+  async notify(
+    alert: AdminAlert,
+    config: AdminAlertsConfig | undefined,
+    timezone: string,
+    sendText: SendTextFn,
+    whatsappDown: boolean = false
+  ): Promise<void> {
+    if (!config) return;
+
+    if (!this.shouldSend(alert.key, config.dedupMinutes)) {
+      logger.debug('Aviso para administradores suprimido (repetido)', { key: alert.key });
+      return;
+    }
+
+    const text = formatAdminAlert(alert, timezone);
+
+    if (whatsappDown || config.recipients.length === 0) {
+      this.writeFallback(text, config);
+      return;
+    }
+
+    let failed = false;
+    for (const recipient of config.recipients) {
+      try {
+        await sendText(recipient, text);
+      } catch (error) {
+        failed = true;
+        logger.error('Erro ao enviar aviso para administrador', {
+          recipient,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    if (failed) {
+      this.writeFallback(text, config);
+    }
+  }
+}
+
+// Instância global de avisos para administradores
+export const adminAlerts = new AdminAlerts();
@@ -0,0 +1,135 @@
+import { getZonedDateParts } from './cron.js';
+import type { BlackoutDate, SettingsConfig } from './types.js';
+
+// ========== CALENDAR ==========
+// Feriados nacionais brasileiros (incluindo móveis) e bloqueios personalizados
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  name: string;
+  type: 'holiday' | 'blackout';
+}
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+// Formatar data UTC como YYYY-MM-DD
+function toDateString(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// Somar dias a uma data UTC
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher, calendário gregoriano)
+export function getEasterDate(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// Feriados nacionais de um ano (Carnaval e Corpus Christi incluídos, embora sejam ponto facultativo)
+export function getNationalHolidays(year: number): CalendarDay[] {
+  const easter = getEasterDate(year);
+  const fixed = (month: number, day: number, name: string): CalendarDay => ({
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    name,
+    type: 'holiday',
+  });
+  const moveable = (offset: number, name: string): CalendarDay => ({
+    date: toDateString(addDays(easter, offset)),
+    name,
+    type: 'holiday',
+  });
+
+  const holidays: CalendarDay[] = [
+    fixed(1, 1, 'Confraternização Universal'),
+    moveable(-48, 'Carnaval (segunda-feira)'),
+    moveable(-47, 'Carnaval (terça-feira)'),
+    moveable(-2, 'Sexta-feira Santa'),
+    fixed(4, 21, 'Tiradentes'),
+    fixed(5, 1, 'Dia do Trabalho'),
+    moveable(60, 'Corpus Christi'),
+    fixed(9, 7, 'Independência do Brasil'),
+    fixed(10, 12, 'Nossa Senhora Aparecida'),
+    fixed(11, 2, 'Finados'),
+    fixed(11, 15, 'Proclamação da República'),
+    fixed(12, 25, 'Natal'),
+  ];
+
+  // Feriado nacional desde a Lei 14.759/2023
+  if (year >= 2024) {
+    holidays.push(fixed(11, 20, 'Dia Nacional de Zumbi e da Consciência Negra'));
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Expandir bloqueios configurados (datas ou intervalos) para dias de um ano
+export function getBlackoutDays(blackouts: BlackoutDate[], year: number): CalendarDay[] {
+  const days: CalendarDay[] = [];
+
+  for (const blackout of blackouts) {
+    const { start, end, name } = typeof blackout === 'string'
+      ? { start: blackout, end: undefined, name: undefined }
+      : blackout;
+
+    let cursor = new Date(`${start}T00:00:00Z`);
+    const last = new Date(`${end || start}T00:00:00Z`);
+
+    while (cursor <= last) {
+      if (cursor.getUTCFullYear() === year) {
+        days.push({ date: toDateString(cursor), name: name || 'Bloqueio', type: 'blackout' });
+      }
+      cursor = addDays(cursor, 1);
+    }
+  }
+
+  return days;
+}
+
+// Validar um bloqueio configurado (retorna mensagem de erro ou null)
+export function validateBlackout(blackout: BlackoutDate): string | null {
+  const isDate = (value: unknown): boolean =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+  if (typeof blackout === 'string') {
+    return isDate(blackout) ? null : `Data de bloqueio inválida: ${blackout}`;
+  }
+
+  if (!blackout || !isDate(blackout.start)) {
+    return `Bloqueio sem 'start' válido (YYYY-MM-DD): ${JSON.stringify(blackout)}`;
+  }
+  if (blackout.end !== undefined && (!isDate(blackout.end) || blackout.end < blackout.start)) {
+    return `Bloqueio com 'end' inválido: ${JSON.stringify(blackout)}`;
+  }
+  return null;
+}
+
+// Calendário completo de um ano (feriados + bloqueios)
+export function getCalendar(year: number, settings: SettingsConfig): CalendarDay[] {
+  return [...getNationalHolidays(year), ...getBlackoutDays(settings.blackoutDates, year)]
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Verificar se a data (no timezone informado) é feriado ou bloqueio
+export function findBlockedDay(date: Date, timezone: string, settings: SettingsConfig): CalendarDay | null {
+  const { year, month, day } = getZonedDateParts(date, timezone);
+  const dateString = `${year}-${pad(month)}-${pad(day)}`;
+
+  return getCalendar(year, settings).find(d => d.date === dateString) || null;
+}
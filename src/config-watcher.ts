@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+import { loadConfig, ConfigValidationError } from './config.js';
+import type { AppConfig } from './types.js';
+
+// ========== CONFIG WATCHER ==========
+// Recarrega o config.yaml quando o arquivo é editado, sem reiniciar o processo
+// Edições inválidas são rejeitadas e a configuração anterior continua valendo
+
+type ReloadHandler = (config: AppConfig) => void | Promise<void>;
+
+class ConfigWatcher {
+  private watcher: fs.FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private lastContent: string | null = null;
+  private readonly DEBOUNCE_MS = 500;
+
+  private readContent(filePath: string): string | null {
+    try {
+      return fs.readFileSync(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  // Iniciar observação do arquivo
+  start(configPath: string, onReload: ReloadHandler): void {
+    this.stop();
+
+    const absolutePath = path.resolve(configPath);
+    this.lastContent = this.readContent(absolutePath);
+
+    // Observar o diretório: editores costumam substituir o arquivo (rename), o que encerra um watch no próprio arquivo
+    this.watcher = fs.watch(path.dirname(absolutePath), (_event, filename) => {
+      if (filename && filename !== path.basename(absolutePath)) return;
+
+      if (this.debounceTimer) clearTimeout(this.debounceTimer);
+      this.debounceTimer = setTimeout(() => {
+        this.handleChange(absolutePath, onReload).catch(error => {
+          logger.error('Erro ao aplicar nova configuração', {
+            error: error instanceof Error ? error.message : error,
+          });
+        });
+      }, this.DEBOUNCE_MS);
+    });
+
+    logger.info('Observando alterações no arquivo de configuração', { path: absolutePath });
+  }
+
+  // Validar e aplicar o arquivo alterado
+  private async handleChange(absolutePath: string, onReload: ReloadHandler): Promise<void> {
+    const content = this.readContent(absolutePath);
+    if (content === null) {
+      logger.warn('Arquivo de configuração removido ou ilegível; configuração anterior mantida', { path: absolutePath });
+      return;
+    }
+    if (content === this.lastContent) return;
+    this.lastContent = content;
+
+    logger.info('Arquivo de configuração alterado, recarregando');
+
+    let config: AppConfig;
+    try {
+      config = loadConfig(absolutePath, { strict: true });
+    } catch (error) {
+      const errors = error instanceof ConfigValidationError
+        ? error.errors
+        : [error instanceof Error ? error.message : String(error)];
+
+      logger.error('Alteração no arquivo de configuração rejeitada; configuração anterior mantida', {
+        errors: errors.length,
+      });
+      errors.forEach(e => logger.error(`  - ${e}`));
+      return;
+    }
+
+    // loadConfig pode ter gravado IDs novos no arquivo
+    this.lastContent = this.readContent(absolutePath);
+    await onReload(config);
+  }
+
+  // Parar observação
+  stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+}
+
+// Instância global do watcher
+export const configWatcher = new ConfigWatcher();
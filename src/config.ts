@@ -1,8 +1,27 @@
 import fs from 'fs';
 import path from 'path';
 import YAML from 'yaml';
+import { v4 as uuidv4 } from 'uuid';
 import { logger } from './logger.js';
-import type { AppConfig, ScheduleConfig, SettingsConfig, BrowserConfig, UazapiConfig } from './types.js';
+import { validateBlackout } from './calendar.js';
+import { fromZonedTime, getCronExpressions, validateCron } from './cron.js';
+import { getRuleConditions } from './rules.js';
+import { validateSendWindow } from './send-window.js';
+import { validateA1Range, validatePresentation } from './sheets.js';
+import { validateImageOutput, validateImageProcessing } from './image-processing.js';
+import type {
+  AppConfig,
+  ScheduleConfig,
+  SettingsConfig,
+  BrowserConfig,
+  UazapiConfig,
+  WebhookEventType,
+  WebhookTarget,
+  AdminAlertsConfig,
+  DigestConfig,
+  SendWindowConfig,
+  ImageOutputConfig,
+} from './types.js';
 
 // Valores padrão
 const defaultSettings: SettingsConfig = {
@@ -11,14 +30,54 @@ const defaultSettings: SettingsConfig = {
   delayBetweenGroups: 5000,
   pageTimeout: 30000,
   waitAfterLoad: 2000,
+  retry: {
+    enabled: true,
+    maxAttempts: 5,
+    initialDelay: 60000,
+    maxAge: 2 * 60 * 60 * 1000,
+    checkInterval: 30000,
+  },
+  missedRunGraceMinutes: 15,
+  blackoutDates: [],
+  webhooks: {
+    targets: [],
+    maxAttempts: 5,
+    initialDelay: 30000,
+    timeout: 10000,
+  },
 };
 
+const webhookEvents: WebhookEventType[] = ['run.started', 'run.finished', 'group.failed', 'whatsapp.disconnected'];
+
+// Validar um destino de webhook (retorna mensagem de erro ou null)
+function validateWebhookTarget(target: WebhookTarget, index: number): string | null {
+  const prefix = `settings.webhooks.targets[${index}]`;
+
+  if (!target?.url || !/^https?:\/\//.test(target.url)) {
+    return `${prefix}: 'url' deve começar com http:// ou https://`;
+  }
+  if (!target.secret) {
+    return `${prefix}: 'secret' é obrigatório`;
+  }
+  const unknown = (target.events || []).filter(e => !webhookEvents.includes(e));
+  if (unknown.length > 0) {
+    return `${prefix}: evento(s) desconhecido(s): ${unknown.join(', ')}`;
+  }
+  return null;
+}
+
 const defaultBrowser: BrowserConfig = {
   headless: true,
   defaultViewport: {
     width: 1920,
     height: 1080,
   },
+  renderReadiness: {
+    enabled: true,
+    timeout: 15000,
+    stableFrames: 2,
+    frameInterval: 400,
+  },
 };
 
 // Substituir variáveis de ambiente em strings
@@ -46,47 +105,97 @@ function processEnvVars(obj: unknown): unknown {
   return obj;
 }
 
-// Validar expressão cron
-function isValidCron(expression: string): boolean {
-  const parts = expression.split(' ');
-  if (parts.length !== 5) return false;
-
-  // Validação básica de cada campo
-  const ranges = [
-    { min: 0, max: 59 },   // minuto
-    { min: 0, max: 23 },   // hora
-    { min: 1, max: 31 },   // dia do mês
-    { min: 1, max: 12 },   // mês
-    { min: 0, max: 6 },    // dia da semana
-  ];
-
-  for (let i = 0; i < parts.length; i++) {
-    const part = parts[i];
-    if (part === '*') continue;
-
-    // Verificar ranges (ex: 1-5)
-    if (part.includes('-')) {
-      const [start, end] = part.split('-').map(Number);
-      if (isNaN(start) || isNaN(end)) continue; // Pode ter texto como MON-FRI
-    }
+// Converter resumeAt (ISO 8601 ou YYYY-MM-DD) para Date
+// Data sem horário é a meia-noite no timezone informado (o do schedule ou settings.timezone)
+export function parseResumeAt(value: string, timezone: string = defaultSettings.timezone): Date | null {
+  const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = day
+    ? fromZonedTime(Number(day[1]), Number(day[2]), Number(day[3]), 0, 0, timezone)
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
 
-    // Verificar steps (ex: */5)
-    if (part.includes('/')) {
-      const [, step] = part.split('/');
-      if (isNaN(Number(step))) return false;
-    }
+// Verificar se um schedule está ativo (considera retomada automática)
+// 'defaultTimezone' é o settings.timezone, usado quando o schedule não tem timezone próprio
+export function isScheduleEnabled(
+  schedule: ScheduleConfig,
+  now: Date = new Date(),
+  defaultTimezone: string = defaultSettings.timezone
+): boolean {
+  if (schedule.enabled !== false) return true;
+  if (!schedule.resumeAt) return false;
+
+  const resumeAt = parseResumeAt(schedule.resumeAt, schedule.timezone || defaultTimezone);
+  return resumeAt !== null && now >= resumeAt;
+}
 
-    // Verificar lista (ex: 1,2,3)
-    if (part.includes(',')) {
-      continue; // Aceitar listas
-    }
+// Verificar se o timezone é reconhecido (ex: America/Cuiaba)
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Timezone efetivo de um schedule
+export function getScheduleTimezone(schedule: ScheduleConfig, settings: SettingsConfig): string {
+  return schedule.timezone || settings.timezone;
+}
+
+// Janela de envio efetiva de um schedule
+export function getSendWindow(schedule: ScheduleConfig, settings: SettingsConfig): SendWindowConfig | undefined {
+  return schedule.sendWindow || settings.sendWindow;
+}
+
+// Formato de saída efetivo das imagens de um schedule
+export function getImageOutput(schedule: ScheduleConfig, settings: SettingsConfig): ImageOutputConfig | undefined {
+  return schedule.output || settings.output;
+}
+
+// Validar settings recebidos pela API antes de gravar (retorna lista de erros)
+// Na carga, alguns desses erros impedem a inicialização (sendWindow) e outros descartam o valor
+export function validateSettings(settings: SettingsConfig): string[] {
+  const errors: string[] = [];
+
+  if (!settings.timezone || !isValidTimezone(settings.timezone)) {
+    errors.push(`settings.timezone inválido: ${settings.timezone}`);
+  }
+
+  if (settings.sendWindow !== undefined) {
+    const windowError = validateSendWindow(settings.sendWindow);
+    if (windowError) errors.push(`settings.sendWindow inválido: ${windowError}`);
   }
 
-  return true;
+  if (settings.output !== undefined) {
+    const outputError = validateImageOutput(settings.output);
+    if (outputError) errors.push(`settings.output inválido: ${outputError}`);
+  }
+
+  (settings.webhooks?.targets || []).forEach((target, index) => {
+    const error = validateWebhookTarget(target, index);
+    if (error) errors.push(error);
+  });
+
+  for (const blackout of settings.blackoutDates || []) {
+    const error = validateBlackout(blackout);
+    if (error) errors.push(`settings.blackoutDates: ${error}`);
+  }
+
+  return errors;
+}
+
+// Erro de validação com a lista completa de problemas encontrados
+export class ConfigValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Configuração inválida: ${errors.join('; ')}`);
+    this.name = 'ConfigValidationError';
+  }
 }
 
-// Validar configuração de schedule
-function validateSchedule(schedule: ScheduleConfig, index: number): boolean {
+// Validar configuração de schedule (retorna lista de erros)
+function validateSchedule(schedule: ScheduleConfig, index: number): string[] {
   const errors: string[] = [];
 
   if (!schedule.name) {
@@ -103,26 +212,139 @@ function validateSchedule(schedule: ScheduleConfig, index: number): boolean {
     errors.push(`Schedule ${index}: 'groups' deve ter pelo menos um grupo`);
   }
 
-  if (!schedule.cron) {
+  const cronExpressions = schedule.cron ? getCronExpressions(schedule.cron) : [];
+  if (cronExpressions.length === 0) {
     errors.push(`Schedule ${index}: 'cron' é obrigatório`);
-  } else if (!isValidCron(schedule.cron)) {
-    errors.push(`Schedule ${index}: 'cron' inválido: ${schedule.cron}`);
+  }
+  for (const expression of cronExpressions) {
+    const cronError = validateCron(expression);
+    if (cronError) {
+      errors.push(`Schedule ${index}: 'cron' inválido: ${cronError}`);
+    }
   }
 
-  if (!schedule.messageTemplate) {
+  if (!schedule.messageTemplate && !schedule.alert) {
     errors.push(`Schedule ${index}: 'messageTemplate' é obrigatório`);
   }
 
-  if (errors.length > 0) {
-    errors.forEach(e => logger.error(e));
-    return false;
+  if (schedule.resumeAt && !parseResumeAt(schedule.resumeAt)) {
+    errors.push(`Schedule ${index}: 'resumeAt' inválido: ${schedule.resumeAt}`);
+  }
+
+  if (schedule.timezone !== undefined && !isValidTimezone(schedule.timezone)) {
+    errors.push(`Schedule ${index}: 'timezone' inválido: ${schedule.timezone}`);
+  }
+
+  if (schedule.overlapPolicy !== undefined && !['skip', 'queue', 'cancel-previous'].includes(schedule.overlapPolicy)) {
+    errors.push(`Schedule ${index}: 'overlapPolicy' deve ser 'skip', 'queue' ou 'cancel-previous': ${JSON.stringify(schedule.overlapPolicy)}`);
+  }
+
+  if (schedule.missedRunPolicy !== undefined && !['run', 'skip'].includes(schedule.missedRunPolicy)) {
+    errors.push(`Schedule ${index}: 'missedRunPolicy' deve ser 'run' ou 'skip': ${JSON.stringify(schedule.missedRunPolicy)}`);
   }
 
-  return true;
+  if (schedule.sendWindow !== undefined) {
+    const windowError = validateSendWindow(schedule.sendWindow);
+    if (windowError) errors.push(`Schedule ${index}: 'sendWindow' inválido: ${windowError}`);
+  }
+
+  for (const range of [schedule.range, ...(schedule.sheetTabs || []).map(t => t.range)]) {
+    const rangeError = range !== undefined ? validateA1Range(range) : null;
+    if (rangeError) errors.push(`Schedule ${index}: 'range' inválido: ${rangeError}`);
+  }
+
+  if (schedule.presentation !== undefined) {
+    const presentationError = validatePresentation(schedule.presentation);
+    if (presentationError) errors.push(`Schedule ${index}: 'presentation' inválido: ${presentationError}`);
+  }
+
+  if (schedule.image !== undefined) {
+    const imageError = validateImageProcessing(schedule.image);
+    if (imageError) errors.push(`Schedule ${index}: 'image' inválido: ${imageError}`);
+  }
+
+  if (schedule.output !== undefined) {
+    const outputError = validateImageOutput(schedule.output);
+    if (outputError) errors.push(`Schedule ${index}: 'output' inválido: ${outputError}`);
+  }
+
+  if (schedule.alert) {
+    const variables = new Set((schedule.cellMappings || []).map(m => m.variable));
+
+    if (!schedule.alert.messageTemplate) {
+      errors.push(`Schedule ${index}: 'alert.messageTemplate' é obrigatório`);
+    }
+    if (schedule.alert.match && !['all', 'any'].includes(schedule.alert.match)) {
+      errors.push(`Schedule ${index}: 'alert.match' deve ser 'all' ou 'any'`);
+    }
+
+    try {
+      for (const condition of getRuleConditions(schedule.alert)) {
+        const referenced = [condition.variable, 'variable' in condition.operand ? condition.operand.variable : null];
+        for (const variable of referenced) {
+          if (variable && !variables.has(variable)) {
+            errors.push(`Schedule ${index}: variável '${variable}' da condição "${condition.source}" não está em cellMappings`);
+          }
+        }
+      }
+    } catch (error) {
+      errors.push(`Schedule ${index}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return errors;
+}
+
+// Garantir que todo schedule tenha um ID estável, gravando os novos IDs no arquivo
+// (edita o documento YAML original para preservar comentários e variáveis ${VAR})
+function ensureScheduleIds(fileContent: string, absolutePath: string, schedules: ScheduleConfig[]): void {
+  const seen = new Set<string>();
+  const assigned: { index: number; id: string }[] = [];
+
+  schedules.forEach((schedule, index) => {
+    if (!schedule.id || seen.has(schedule.id)) {
+      schedule.id = uuidv4();
+      assigned.push({ index, id: schedule.id });
+    }
+    seen.add(schedule.id);
+  });
+
+  if (assigned.length === 0) return;
+
+  try {
+    const doc = YAML.parseDocument(fileContent);
+    for (const { index, id } of assigned) {
+      doc.setIn(['schedules', index, 'id'], id);
+    }
+    fs.writeFileSync(absolutePath, doc.toString(), 'utf-8');
+    logger.info(`IDs gerados para ${assigned.length} schedule(s) e gravados no config`);
+  } catch (error) {
+    logger.error('Erro ao gravar IDs dos schedules no config', {
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
+
+// Salvar configuração editando o documento original: blocos que a API não altera
+// (alerts, digest, ...) e comentários são preservados
+export function saveConfig(config: AppConfig, configPath: string): void {
+  const absolutePath = path.resolve(configPath);
+  const doc = fs.existsSync(absolutePath)
+    ? YAML.parseDocument(fs.readFileSync(absolutePath, 'utf-8'))
+    : new YAML.Document({});
+
+  doc.set('uazapi', doc.createNode(config.uazapi));
+  doc.set('settings', doc.createNode(config.settings));
+  doc.set('browser', doc.createNode(config.browser));
+  doc.set('schedules', doc.createNode(config.schedules));
+
+  fs.writeFileSync(absolutePath, doc.toString(), 'utf-8');
+  logger.info('Configuração salva', { path: absolutePath });
 }
 
 // Carregar configuração
-export function loadConfig(configPath?: string): AppConfig {
+// No modo strict, qualquer schedule inválido rejeita a configuração inteira (usado no hot reload)
+export function loadConfig(configPath?: string, options: { strict?: boolean } = {}): AppConfig {
   const configFile = configPath || process.env.CONFIG_PATH || './config/config.yaml';
   const absolutePath = path.resolve(configFile);
 
@@ -154,8 +376,73 @@ export function loadConfig(configPath?: string): AppConfig {
   const settings: SettingsConfig = {
     ...defaultSettings,
     ...config.settings,
+    retry: {
+      ...defaultSettings.retry,
+      ...config.settings?.retry,
+    },
+    webhooks: {
+      ...defaultSettings.webhooks,
+      ...config.settings?.webhooks,
+    },
   };
 
+  // Janela de envio inválida não é descartada: sem ela, envios fora de hora seriam liberados
+  if (settings.sendWindow !== undefined) {
+    const windowError = validateSendWindow(settings.sendWindow);
+    if (windowError) {
+      throw new Error(`settings.sendWindow inválido: ${windowError}`);
+    }
+  }
+
+  // Formato de saída inválido volta ao padrão (PNG sem limite)
+  if (settings.output !== undefined) {
+    const outputError = validateImageOutput(settings.output);
+    if (outputError) {
+      logger.error(`settings.output inválido, usando PNG: ${outputError}`);
+      settings.output = undefined;
+    }
+  }
+
+  // Descartar webhooks inválidos
+  settings.webhooks.targets = (settings.webhooks.targets || []).filter((target, index) => {
+    const error = validateWebhookTarget(target, index);
+    if (error) logger.error(error);
+    return !error;
+  });
+
+  // Descartar bloqueios inválidos do calendário
+  settings.blackoutDates = (settings.blackoutDates || []).filter(blackout => {
+    const error = validateBlackout(blackout);
+    if (error) logger.error(`settings.blackoutDates: ${error}`);
+    return !error;
+  });
+
+  // Avisos para administradores (destinatários inválidos são descartados)
+  let alerts: AdminAlertsConfig | undefined;
+  if (config.alerts) {
+    alerts = {
+      ...config.alerts,
+      dedupMinutes: config.alerts.dedupMinutes ?? 60,
+      recipients: (config.alerts.recipients || []).filter(recipient => {
+        const valid = typeof recipient === 'string' && (recipient.includes('@') || recipient.replace(/\D/g, '').length >= 8);
+        if (!valid) logger.error(`alerts.recipients: destinatário inválido: ${recipient}`);
+        return valid;
+      }),
+    };
+  }
+
+  // Resumo diário (descartado se inválido)
+  let digest: DigestConfig | undefined;
+  if (config.digest) {
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(String(config.digest.time))) {
+      logger.error(`digest.time inválido (use HH:mm): ${config.digest.time}`);
+    } else if (!config.digest.recipient) {
+      logger.error(`digest.recipient é obrigatório`);
+    } else {
+      digest = config.digest;
+    }
+  }
+
   // Mesclar browser config com padrões
   const browser: BrowserConfig = {
     ...defaultBrowser,
@@ -164,6 +451,10 @@ export function loadConfig(configPath?: string): AppConfig {
       ...defaultBrowser.defaultViewport,
       ...config.browser?.defaultViewport,
     },
+    renderReadiness: {
+      ...defaultBrowser.renderReadiness,
+      ...config.browser?.renderReadiness,
+    },
   };
 
   // Validar schedules
@@ -172,14 +463,31 @@ export function loadConfig(configPath?: string): AppConfig {
     throw new Error('Nenhum schedule configurado');
   }
 
+  ensureScheduleIds(fileContent, absolutePath, schedules);
+
+  const scheduleErrors = schedules.map((schedule, index) => validateSchedule(schedule, index));
+  if (options.strict && scheduleErrors.some(errors => errors.length > 0)) {
+    throw new ConfigValidationError(scheduleErrors.flat());
+  }
+
   const validSchedules: ScheduleConfig[] = [];
   schedules.forEach((schedule, index) => {
-    if (validateSchedule(schedule, index)) {
-      validSchedules.push({
+    scheduleErrors[index].forEach(e => logger.error(e));
+    if (scheduleErrors[index].length === 0) {
+      const normalized: ScheduleConfig = {
         ...schedule,
         viewport: schedule.viewport || browser.defaultViewport,
         waitAfterLoad: schedule.waitAfterLoad || settings.waitAfterLoad,
-      });
+      };
+
+      // Pausa com data de retomada já vencida: reativar
+      if (normalized.enabled === false && normalized.resumeAt && isScheduleEnabled(normalized, new Date(), settings.timezone)) {
+        logger.info(`Schedule ${normalized.name} retomado automaticamente`, { resumeAt: normalized.resumeAt });
+        normalized.enabled = true;
+        delete normalized.resumeAt;
+      }
+
+      validSchedules.push(normalized);
     }
   });
 
@@ -193,6 +501,8 @@ export function loadConfig(configPath?: string): AppConfig {
     uazapi,
     settings,
     browser,
+    alerts,
+    digest,
     schedules: validSchedules,
   };
 }
@@ -0,0 +1,37 @@
+import { logger } from './logger.js';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './storage.js';
+
+// ========== WHATSAPP CONNECTION ==========
+// Último estado conhecido da conexão com o WhatsApp, em arquivo compartilhado entre index.ts e server.ts
+// Quem verifica a conexão (envio, fila de retry ou status no servidor) registra o resultado aqui,
+// e só a transição para desconectado dispara o webhook 'whatsapp.disconnected'
+
+interface ConnectionState {
+  connected?: boolean;
+  checkedAt?: string; // ISO 8601
+}
+
+class ConnectionMonitor {
+  private readonly filePath = dataPath('whatsapp-connection.json');
+
+  // Registrar resultado de uma verificação (retorna true se a conexão acabou de cair)
+  record(connected: boolean): boolean {
+    try {
+      return withFileLock(this.filePath, () => {
+        const previous = readJsonFile<ConnectionState>(this.filePath, {}).connected;
+        if (previous !== connected) {
+          writeJsonFile(this.filePath, { connected, checkedAt: new Date().toISOString() });
+        }
+        return !connected && previous !== false;
+      });
+    } catch (error) {
+      logger.error('Erro ao registrar estado da conexão WhatsApp', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return false;
+    }
+  }
+}
+
+// Instância global do estado da conexão
+export const connectionMonitor = new ConnectionMonitor();
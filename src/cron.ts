@@ -0,0 +1,496 @@
+import cron from 'node-cron';
+
+// ========== CRON ==========
+// Interpretação de expressões cron (5 campos) com suporte a timezone
+// Segue a mesma semântica do node-cron: todos os campos precisam casar (AND)
+
+export interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];  // Nomes em inglês aceitos (ex: MON, January), a partir de 'min'
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minuto', min: 0, max: 59 },
+  { name: 'hora', min: 0, max: 23 },
+  { name: 'dia do mês', min: 1, max: 31 },
+  {
+    name: 'mês', min: 1, max: 12,
+    names: ['january', 'february', 'march', 'april', 'may', 'june',
+      'july', 'august', 'september', 'october', 'november', 'december'],
+  },
+  {
+    name: 'dia da semana', min: 0, max: 7,
+    names: ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'],
+  },
+];
+
+// Converter um valor do campo (número ou nome) para número
+function parseValue(token: string, spec: FieldSpec, field: string): number {
+  if (/^\d+$/.test(token)) {
+    const value = Number(token);
+    if (value < spec.min || value > spec.max) {
+      throw new Error(`Campo ${spec.name} inválido em "${field}": ${value} fora do intervalo ${spec.min}-${spec.max}`);
+    }
+    return value;
+  }
+
+  const lower = token.toLowerCase();
+  const index = spec.names?.findIndex(name => name === lower || name.slice(0, 3) === lower) ?? -1;
+  if (index < 0) {
+    throw new Error(`Campo ${spec.name} inválido em "${field}": valor "${token}" não reconhecido`);
+  }
+  return spec.min + index;
+}
+
+// Interpretar um campo (ex: "*", "5", "1-5", "*/15", "1,3,5", "MON-FRI")
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    if (part === '') {
+      throw new Error(`Campo ${spec.name} inválido em "${field}": item vazio na lista`);
+    }
+
+    const [rangePart, stepPart, extra] = part.split('/');
+    if (extra !== undefined) {
+      throw new Error(`Campo ${spec.name} inválido em "${field}": mais de um passo em "${part}"`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || Number(stepPart) < 1) {
+        throw new Error(`Campo ${spec.name} inválido em "${field}": passo "${stepPart}" deve ser um inteiro positivo`);
+      }
+      step = Number(stepPart);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const bounds = rangePart.split('-');
+      if (bounds.length !== 2) {
+        throw new Error(`Campo ${spec.name} inválido em "${field}": intervalo "${rangePart}" malformado`);
+      }
+      start = parseValue(bounds[0], spec, field);
+      end = parseValue(bounds[1], spec, field);
+      if (start > end) {
+        throw new Error(`Campo ${spec.name} inválido em "${field}": intervalo "${rangePart}" com início maior que o fim`);
+      }
+    } else {
+      // O node-cron só aceita passo sobre '*' ou intervalo (ex: "5/15" é recusado)
+      if (stepPart !== undefined) {
+        throw new Error(`Campo ${spec.name} inválido em "${field}": passo exige "*" ou intervalo, use "*/${stepPart}" ou "${rangePart}-${spec.max}/${stepPart}"`);
+      }
+      start = parseValue(rangePart, spec, field);
+      end = start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+// Interpretar expressão cron completa
+export function parseCron(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Expressão cron deve ter 5 campos (minuto hora dia mês dia-semana), recebido ${parts.length}: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELD_SPECS[i])
+  );
+
+  // Domingo pode ser 0 ou 7
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+// Validar expressão cron (retorna mensagem de erro ou null)
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    // Garantir que o node-cron também aceita, senão cron.schedule falharia ao carregar
+    if (!cron.validate(expression)) {
+      return `Expressão cron não suportada pelo node-cron: "${expression}"`;
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// ========== TIMEZONE ==========
+
+export interface ZonedDateParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;     // 1-31
+  hour: number;    // 0-23
+  minute: number;  // 0-59
+  weekday: number; // 0 = domingo
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Obter componentes de data/hora em um timezone
+export function getZonedDateParts(date: Date, timezone: string): ZonedDateParts {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const { type, value } of formatter.formatToParts(date)) {
+    parts[type] = value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Converter data/hora local de um timezone para Date (ex: meia-noite de 02/11 em America/Sao_Paulo)
+export function fromZonedTime(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const target = Date.UTC(year, month - 1, day, hour, minute);
+  let time = target;
+
+  // A segunda passada corrige o deslocamento quando a data cruza uma mudança de horário de verão
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedDateParts(new Date(time), timezone);
+    time += target - Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  }
+  return new Date(time);
+}
+
+// Verificar se uma data casa com a expressão no timezone informado
+export function matchesCron(fields: CronFields, date: Date, timezone: string): boolean {
+  const parts = getZonedDateParts(date, timezone);
+  return fields.minutes.has(parts.minute)
+    && fields.hours.has(parts.hour)
+    && fields.daysOfMonth.has(parts.day)
+    && fields.months.has(parts.month)
+    && fields.daysOfWeek.has(parts.weekday);
+}
+
+// Encontrar o primeiro disparo a partir de 'cursor' (inclusive) até 'limit'
+// Pula horas e dias que não casam para evitar percorrer minuto a minuto
+function findNextMatch(fields: CronFields, cursor: Date, limit: Date, timezone: string): Date | null {
+  const current = new Date(cursor.getTime());
+  current.setUTCSeconds(0, 0);
+
+  while (current <= limit) {
+    const parts = getZonedDateParts(current, timezone);
+    let skipMinutes = 0;
+
+    if (!fields.months.has(parts.month) || !fields.daysOfMonth.has(parts.day) || !fields.daysOfWeek.has(parts.weekday)) {
+      // Ir para as 23h e depois para a meia-noite (margem para mudanças de horário de verão)
+      const minuteOfDay = parts.hour * 60 + parts.minute;
+      skipMinutes = minuteOfDay < 23 * 60 ? 23 * 60 - minuteOfDay : 60 - parts.minute;
+    } else if (!fields.hours.has(parts.hour)) {
+      skipMinutes = 60 - parts.minute;
+    } else if (!fields.minutes.has(parts.minute)) {
+      skipMinutes = 1;
+    } else {
+      return current;
+    }
+
+    current.setUTCMinutes(current.getUTCMinutes() + skipMinutes);
+  }
+
+  return null;
+}
+
+// Listar horários de disparo no intervalo (from, to]
+export function getOccurrencesBetween(expression: string, from: Date, to: Date, timezone: string): Date[] {
+  const fields = parseCron(expression);
+  const occurrences: Date[] = [];
+
+  // Começar no primeiro minuto cheio após 'from'
+  let cursor = new Date(from.getTime());
+  cursor.setUTCSeconds(0, 0);
+  cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+
+  for (;;) {
+    const next = findNextMatch(fields, cursor, to, timezone);
+    if (!next) break;
+    occurrences.push(next);
+    cursor = new Date(next.getTime() + 60 * 1000);
+  }
+
+  return occurrences;
+}
+
+// Próximos 'count' disparos após 'from', considerando todas as expressões do schedule
+export function getNextOccurrences(expressions: string[], from: Date, count: number, timezone: string): Date[] {
+  const limit = new Date(from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000); // Busca até 5 anos à frente
+  const occurrences = new Set<number>();
+
+  for (const expression of expressions) {
+    const fields = parseCron(expression);
+    let cursor = new Date(from.getTime());
+    cursor.setUTCSeconds(0, 0);
+    cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+
+    for (let i = 0; i < count; i++) {
+      const next = findNextMatch(fields, cursor, limit, timezone);
+      if (!next) break;
+      occurrences.add(next.getTime());
+      cursor = new Date(next.getTime() + 60 * 1000);
+    }
+  }
+
+  return [...occurrences].sort((a, b) => a - b).slice(0, count).map(time => new Date(time));
+}
+
+// ========== SCHEDULE EXPRESSIONS ==========
+// Um schedule pode ter uma ou várias expressões (ex: horários com minutos diferentes)
+
+export interface StructuredCron {
+  times: string[];      // HH:mm
+  weekdays: number[];   // 0 = domingo (vazio = todos)
+  monthDays: number[];  // 1-31 (vazio = todos)
+}
+
+const pad2 = (n: number): string => String(n).padStart(2, '0');
+const sorted = (values: Iterable<number>): number[] => [...values].sort((a, b) => a - b);
+
+// Normalizar campo cron do schedule para lista
+export function getCronExpressions(cron: string | string[]): string[] {
+  return (Array.isArray(cron) ? cron : [cron]).map(expr => expr.trim()).filter(Boolean);
+}
+
+// Compactar lista de números em formato cron (ex: [1,2,3,5] -> "1-3,5")
+function compressList(values: number[]): string {
+  const parts: string[] = [];
+  const list = sorted(new Set(values));
+
+  for (let i = 0; i < list.length; i++) {
+    let j = i;
+    while (j + 1 < list.length && list[j + 1] === list[j] + 1) j++;
+
+    if (j - i >= 2) {
+      parts.push(`${list[i]}-${list[j]}`);
+    } else {
+      for (let k = i; k <= j; k++) parts.push(String(list[k]));
+    }
+    i = j;
+  }
+
+  return parts.join(',');
+}
+
+// Montar expressões cron a partir de horários e regras de dias
+export function buildCronExpressions(structured: Partial<StructuredCron> & { times: string[] }): string[] {
+  if (structured.times.length === 0) {
+    throw new Error('Informe pelo menos um horário');
+  }
+
+  // Agrupar horas por minuto
+  const hoursByMinute = new Map<number, Set<number>>();
+  for (const time of structured.times) {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+    const hour = match ? Number(match[1]) : NaN;
+    const minute = match ? Number(match[2]) : NaN;
+
+    if (!match || hour > 23 || minute > 59) {
+      throw new Error(`Horário inválido: ${time} (use HH:mm)`);
+    }
+
+    if (!hoursByMinute.has(minute)) hoursByMinute.set(minute, new Set());
+    hoursByMinute.get(minute)!.add(hour);
+  }
+
+  // Minutos com o mesmo conjunto de horas compartilham a expressão
+  const minutesByHours = new Map<string, number[]>();
+  for (const [minute, hours] of hoursByMinute) {
+    const key = compressList(sorted(hours));
+    minutesByHours.set(key, [...(minutesByHours.get(key) || []), minute]);
+  }
+
+  const weekdays = structured.weekdays || [];
+  const monthDays = structured.monthDays || [];
+  const dayOfWeek = weekdays.length === 0 || new Set(weekdays.map(d => d % 7)).size === 7
+    ? '*'
+    : compressList(weekdays.map(d => d % 7));
+  const dayOfMonth = monthDays.length === 0 ? '*' : compressList(monthDays);
+
+  return [...minutesByHours].map(([hours, minutes]) =>
+    `${compressList(minutes)} ${hours} ${dayOfMonth} * ${dayOfWeek}`
+  );
+}
+
+// Converter expressões para horários/dias, quando representável nesse formato
+export function toStructuredCron(expressions: string[]): StructuredCron | null {
+  let result: StructuredCron | null = null;
+
+  for (const expression of expressions) {
+    const fields = parseCron(expression);
+    if (fields.months.size !== 12 || fields.minutes.size * fields.hours.size > 24) {
+      return null;
+    }
+
+    const weekdays = fields.daysOfWeek.size === 7 ? [] : sorted(fields.daysOfWeek);
+    const monthDays = fields.daysOfMonth.size === 31 ? [] : sorted(fields.daysOfMonth);
+
+    // Todas as expressões precisam compartilhar as mesmas regras de dias
+    if (result && (weekdays.join() !== result.weekdays.join() || monthDays.join() !== result.monthDays.join())) {
+      return null;
+    }
+
+    const times: string[] = result?.times || [];
+    for (const hour of sorted(fields.hours)) {
+      for (const minute of sorted(fields.minutes)) {
+        times.push(`${pad2(hour)}:${pad2(minute)}`);
+      }
+    }
+
+    result = { times, weekdays, monthDays };
+  }
+
+  if (result) {
+    result.times = [...new Set(result.times)].sort();
+  }
+  return result;
+}
+
+// ========== DESCRIPTION (pt-BR) ==========
+
+const WEEKDAY_NAMES = ['domingo', 'segunda', 'terça', 'quarta', 'quinta', 'sexta', 'sábado'];
+const WEEKDAY_PLURALS = ['domingos', 'segundas', 'terças', 'quartas', 'quintas', 'sextas', 'sábados'];
+const MONTH_NAMES = [
+  'janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho',
+  'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro',
+];
+
+// Juntar itens em português (ex: "a, b e c")
+function joinPt(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} e ${items[items.length - 1]}`;
+}
+
+// Detectar progressão "a cada N" que cobre todo o campo a partir do mínimo
+function getStep(values: number[], min: number, max: number): number | null {
+  if (values.length < 2 || values[0] !== min) return null;
+  const step = values[1] - values[0];
+  const isProgression = values.every((v, i) => v === min + i * step);
+  return isProgression && values[values.length - 1] + step > max ? step : null;
+}
+
+// Verificar se a lista é sequencial (ex: 1,2,3,4,5)
+function isContiguous(values: number[]): boolean {
+  return values.every((v, i) => i === 0 || v === values[i - 1] + 1);
+}
+
+function describeTimes(fields: CronFields): string {
+  const minutes = sorted(fields.minutes);
+  const hours = sorted(fields.hours);
+
+  if (minutes.length * hours.length <= 12) {
+    const times = hours.flatMap(h => minutes.map(m => `${pad2(h)}:${pad2(m)}`));
+    return `às ${joinPt(times)}`;
+  }
+
+  const minuteStep = getStep(minutes, 0, 59);
+  let minutePart: string;
+  if (minutes.length === 60) {
+    minutePart = 'a cada minuto';
+  } else if (minuteStep) {
+    minutePart = `a cada ${minuteStep} minutos`;
+  } else if (minutes.length === 1) {
+    minutePart = `no minuto ${pad2(minutes[0])}`;
+  } else {
+    minutePart = `nos minutos ${joinPt(minutes.map(pad2))}`;
+  }
+
+  if (hours.length === 24) {
+    return minutes.length === 1 ? `a cada hora, ${minutePart}` : minutePart;
+  }
+
+  const hourStep = getStep(hours, 0, 23);
+  if (hourStep && minutes.length === 1) {
+    return `a cada ${hourStep} horas, ${minutePart}`;
+  }
+  if (isContiguous(hours)) {
+    return `${minutePart}, das ${pad2(hours[0])}:00 às ${pad2(hours[hours.length - 1])}:59`;
+  }
+  return `${minutePart}, nas horas ${joinPt(hours.map(h => `${pad2(h)}h`))}`;
+}
+
+function describeDays(fields: CronFields): string {
+  const parts: string[] = [];
+  const weekdays = sorted(fields.daysOfWeek);
+  const monthDays = sorted(fields.daysOfMonth);
+  const months = sorted(fields.months);
+
+  if (monthDays.length < 31) {
+    parts.push(monthDays.length === 1 ? `no dia ${monthDays[0]}` : `nos dias ${joinPt(monthDays.map(String))}`);
+  }
+
+  if (weekdays.length === 7) {
+    if (monthDays.length === 31) parts.push('todos os dias');
+  } else if (weekdays.length === 1) {
+    const name = WEEKDAY_NAMES[weekdays[0]];
+    parts.push(weekdays[0] === 0 || weekdays[0] === 6 ? `todo ${name}` : `toda ${name}-feira`);
+  } else if (weekdays.length >= 3 && isContiguous(weekdays)) {
+    parts.push(`de ${WEEKDAY_NAMES[weekdays[0]]} a ${WEEKDAY_NAMES[weekdays[weekdays.length - 1]]}`);
+  } else {
+    const masculine = weekdays.every(d => d === 0 || d === 6);
+    parts.push(`${masculine ? 'aos' : 'às'} ${joinPt(weekdays.map(d => WEEKDAY_PLURALS[d]))}`);
+  }
+
+  if (months.length < 12) {
+    parts.push(`em ${joinPt(months.map(m => MONTH_NAMES[m - 1]))}`);
+  }
+
+  return parts.join(', ');
+}
+
+// Descrever expressão cron em português (ex: "Às 09:00, de segunda a sexta")
+export function describeCron(expression: string): string {
+  const fields = parseCron(expression);
+  const description = `${describeTimes(fields)}, ${describeDays(fields)}`;
+  return description.charAt(0).toUpperCase() + description.slice(1);
+}
+
+// Descrever todas as expressões de um schedule
+export function describeCronExpressions(expressions: string[]): string {
+  return expressions.map(describeCron).join('; ');
+}
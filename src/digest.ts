@@ -0,0 +1,149 @@
+import { getZonedDateParts } from './cron.js';
+import { runHistory } from './history.js';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './storage.js';
+import { createTemplateVariables, processTemplate } from './templates.js';
+import type { RunRecord } from './types.js';
+
+// ========== DAILY DIGEST ==========
+// Resumo do dia (config 'digest') montado a partir do histórico de execuções
+// O texto usa o mesmo motor de templates das mensagens: {variável}
+
+export const DEFAULT_DIGEST_TEMPLATE = `📊 *Resumo do dia {date}*
+
+{summary}
+
+✅ Grupos atingidos: {groupsReached}
+❌ Grupos com falha: {groupsFailed}
+⏭️ Execuções ignoradas: {skipped}
+📸 Tempo médio de captura: {avgCapture}
+
+{failures}
+
+{skippedList}`;
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+// Dia local (YYYY-MM-DD) de uma data no timezone informado
+function localDay(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedDateParts(date, timezone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// Horário local (HH:mm) de uma data no timezone informado
+function localTime(date: Date, timezone: string): string {
+  const { hour, minute } = getZonedDateParts(date, timezone);
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+// Execuções reais (sem simulações) concluídas no dia local de 'date'
+export function getRunsOfDay(date: Date, timezone: string): RunRecord[] {
+  const day = localDay(date, timezone);
+  const from = new Date(date.getTime() - 36 * 60 * 60 * 1000);
+
+  return runHistory.list({ from })
+    .filter(run => !run.dryRun && run.status !== 'running')
+    .filter(run => localDay(new Date(run.startedAt), timezone) === day)
+    .reverse();
+}
+
+// Variáveis do resumo: {summary}, {groupsReached}, {groupsFailed}, {skipped}, {avgCapture}, {failures}, {skippedList}
+export function buildDigestVariables(runs: RunRecord[], timezone: string): Record<string, string> {
+  const executed = runs.filter(run => run.status !== 'skipped');
+  const skipped = runs.filter(run => run.status === 'skipped');
+
+  // Uma linha por schedule
+  const bySchedule = new Map<string, RunRecord[]>();
+  for (const run of runs) {
+    bySchedule.set(run.scheduleName, [...(bySchedule.get(run.scheduleName) || []), run]);
+  }
+
+  const summary = [...bySchedule.entries()].map(([name, scheduleRuns]) => {
+    const ran = scheduleRuns.filter(run => run.status !== 'skipped');
+    const reached = ran.reduce((sum, run) => sum + run.groupsSuccess, 0);
+    const total = ran.reduce((sum, run) => sum + run.groupsTotal, 0);
+    const skippedCount = scheduleRuns.length - ran.length;
+
+    const parts = ran.length > 0 ? [`${ran.length} execução(ões)`, `${reached}/${total} grupos`] : [];
+    if (skippedCount > 0) parts.push(`${skippedCount} ignorada(s)`);
+    return `• ${name}: ${parts.join(', ')}`;
+  });
+
+  const failures = executed.flatMap(run => {
+    const groupFailures = run.groups
+      .filter(g => g.status === 'failed')
+      .map(g => `• ${run.scheduleName} → ${g.groupId}: ${g.error || 'erro desconhecido'}`);
+
+    // Erro da execução inteira (ex: WhatsApp não conectado, captura)
+    return run.error && groupFailures.length === 0
+      ? [`• ${run.scheduleName} (${localTime(new Date(run.startedAt), timezone)}): ${run.error}`]
+      : groupFailures;
+  });
+
+  const skippedList = skipped.map(run =>
+    `• ${run.scheduleName} (${localTime(new Date(run.scheduledFor || run.startedAt), timezone)}): ${run.skipReason || 'ignorada'}`
+  );
+
+  const captures = executed.filter(run => run.captureMs).map(run => run.captureMs!);
+  const avgCapture = captures.length > 0
+    ? `${(captures.reduce((sum, ms) => sum + ms, 0) / captures.length / 1000).toFixed(1).replace('.', ',')}s`
+    : '-';
+
+  return {
+    summary: summary.length > 0 ? summary.join('\n') : 'Nenhuma execução hoje.',
+    runs: String(executed.length),
+    groupsReached: String(executed.reduce((sum, run) => sum + run.groupsSuccess, 0)),
+    groupsFailed: String(executed.reduce((sum, run) => sum + run.groupsFailed, 0)),
+    skipped: String(skipped.length),
+    avgCapture,
+    failures: failures.length > 0 ? `*Falhas*\n${failures.join('\n')}` : 'Nenhuma falha.',
+    skippedList: skippedList.length > 0 ? `*Ignoradas*\n${skippedList.join('\n')}` : '',
+  };
+}
+
+// Montar a mensagem do resumo do dia
+export function createDigestMessage(
+  runs: RunRecord[],
+  timezone: string,
+  date: Date,
+  template: string = DEFAULT_DIGEST_TEMPLATE
+): string {
+  // {date}, {weekday} e {week} do dia resumido; {time} e {datetime} do momento da montagem
+  const day = createTemplateVariables('Resumo do dia', timezone, undefined, date);
+  const variables = createTemplateVariables('Resumo do dia', timezone, {
+    date: day.date,
+    weekday: day.weekday,
+    week: day.week,
+    ...buildDigestVariables(runs, timezone),
+  });
+  return processTemplate(template, variables).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Trava diária: index.ts e server.ts podem ter o scheduler ativo ao mesmo tempo
+class DigestState {
+  private readonly filePath = dataPath('digest-state.json');
+
+  // Reservar o envio do resumo do dia de 'date' (false se outro processo já reservou)
+  // Verificação e registro acontecem sob o mesmo lock, então só um processo envia
+  claim(date: Date, timezone: string): boolean {
+    return withFileLock(this.filePath, () => {
+      const day = localDay(date, timezone);
+      if (readJsonFile<{ lastSentOn?: string }>(this.filePath, {}).lastSentOn === day) {
+        return false;
+      }
+      writeJsonFile(this.filePath, { lastSentOn: day, sentAt: new Date().toISOString() });
+      return true;
+    });
+  }
+
+  // Desfazer a reserva quando o envio falha (permite novo envio no mesmo dia)
+  release(date: Date, timezone: string): void {
+    withFileLock(this.filePath, () => {
+      if (readJsonFile<{ lastSentOn?: string }>(this.filePath, {}).lastSentOn === localDay(date, timezone)) {
+        writeJsonFile(this.filePath, {});
+      }
+    });
+  }
+}
+
+// Instância global da trava do resumo
+export const digestState = new DigestState();
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import { dataPath } from './storage.js';
+import { imageExtension } from './image-format.js';
+import type { ScheduleConfig } from './types.js';
+
+// ========== DRY RUN ==========
+// Simulação: cada envio vira imagem (PNG, JPEG ou WebP) + JSON (legenda e JID de destino) em DATA_DIR/dry-run/<runId>/
+
+// Diretório de saída de uma execução simulada
+export function getDryRunDir(runId: string): string {
+  return dataPath('dry-run', runId);
+}
+
+// Gravar o que seria enviado para um grupo (retorna o caminho da imagem)
+export function writeDryRunOutput(
+  runId: string,
+  schedule: Pick<ScheduleConfig, 'id' | 'name'>,
+  groupId: string,
+  jid: string,      // JID formatado como no envio real
+  image: Buffer,
+  caption: string
+): string {
+  const dir = getDryRunDir(runId);
+  const baseName = groupId.replace(/[^a-zA-Z0-9_-]/g, '_');
+  const imageFile = `${dir}/${baseName}.${imageExtension(image)}`;
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(imageFile, image);
+  fs.writeFileSync(`${dir}/${baseName}.json`, JSON.stringify({
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    groupId,
+    jid,
+    caption,
+    imageFile,
+    createdAt: new Date().toISOString(),
+  }, null, 2));
+
+  return imageFile;
+}
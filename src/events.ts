@@ -0,0 +1,108 @@
+import fs from 'fs';
+import { logger } from './logger.js';
+import { dataPath } from './storage.js';
+import type { RunStatus, RunTrigger } from './types.js';
+
+// ========== RUN EVENTS ==========
+// Progresso das execuções (stream SSE em /api/runs/:id/events)
+// Gravado em DATA_DIR/run-events/<runId>.jsonl para ser lido também pelo outro processo
+
+export type RunEventData =
+  | { type: 'run-started'; scheduleId: string; scheduleName: string; trigger: RunTrigger; groupsTotal: number; dryRun?: boolean }
+  | { type: 'capture-started'; target: string; url: string }
+  | { type: 'capture-finished'; target: string; durationMs: number; renderMs?: number; renderReady?: boolean; error?: string }
+  | { type: 'sheet-data-fetched'; url: string; variables: number }
+  | { type: 'group-sent'; groupId: string; index: number; total: number; messageId?: string; outputFile?: string; jid?: string }
+  | { type: 'group-failed'; groupId: string; index: number; total: number; error: string }
+  | {
+      type: 'run-finished';
+      status: RunStatus;
+      groupsTotal: number;
+      groupsSuccess: number;
+      groupsFailed: number;
+      durationMs?: number;
+      error?: string;
+      skipReason?: string;
+    };
+
+export type RunEvent = RunEventData & {
+  runId: string;
+  seq: number;  // Sequência dentro da execução (usada como id do evento SSE)
+  at: string;   // ISO 8601
+};
+
+// Callback usado pelas funções de captura/envio, que não conhecem o runId
+export type RunEventListener = (event: RunEventData) => void;
+
+class RunEvents {
+  private readonly dir = dataPath('run-events');
+  private readonly MAX_AGE = 24 * 60 * 60 * 1000; // 24 horas
+  private sequences: Map<string, number> = new Map();
+
+  private file(runId: string): string {
+    return `${this.dir}/${runId.replace(/[^a-zA-Z0-9_-]/g, '_')}.jsonl`;
+  }
+
+  // Registrar um evento de uma execução
+  emit(runId: string, data: RunEventData): void {
+    const seq = (this.sequences.get(runId) || 0) + 1;
+    const event: RunEvent = { ...data, runId, seq, at: new Date().toISOString() };
+
+    if (data.type === 'run-finished') {
+      this.sequences.delete(runId);
+    } else {
+      this.sequences.set(runId, seq);
+    }
+
+    try {
+      if (data.type === 'run-started') this.prune();
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.appendFileSync(this.file(runId), `${JSON.stringify(event)}\n`);
+    } catch (error) {
+      logger.error('Erro ao gravar evento da execução', {
+        runId,
+        type: data.type,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  // Criar callback que registra eventos em uma execução
+  listenerFor(runId: string): RunEventListener {
+    return data => this.emit(runId, data);
+  }
+
+  // Ler eventos gravados após uma sequência
+  read(runId: string, afterSeq: number = 0): RunEvent[] {
+    const file = this.file(runId);
+    if (!fs.existsSync(file)) return [];
+
+    return fs.readFileSync(file, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim())
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as RunEvent];
+        } catch {
+          return []; // Linha parcial (escrita em andamento)
+        }
+      })
+      .filter(event => event.seq > afterSeq);
+  }
+
+  // Remover arquivos de execuções antigas
+  private prune(): void {
+    if (!fs.existsSync(this.dir)) return;
+
+    const limit = Date.now() - this.MAX_AGE;
+    for (const name of fs.readdirSync(this.dir)) {
+      const file = `${this.dir}/${name}`;
+      if (fs.statSync(file).mtimeMs < limit) {
+        fs.rmSync(file, { force: true });
+      }
+    }
+  }
+}
+
+// Instância global dos eventos de execução
+export const runEvents = new RunEvents();
@@ -1,4 +1,5 @@
 import { logger } from './logger.js';
+import { imageMimeType } from './image-format.js';
 import type {
   EvolutionConfig,
   EvolutionConnectionState,
@@ -105,7 +106,7 @@ export class EvolutionClient {
     const payload: EvolutionSendMediaPayload = {
       number: jid,
       mediatype: 'image',
-      mimetype: 'image/png',
+      mimetype: imageMimeType(imageBuffer),
       caption,
       media: base64Image,
     };
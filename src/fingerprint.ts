@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { fetchSheetData } from './sheets.js';
+import type { CellMapping } from './types.js';
+
+// ========== CHANGE DETECTION ==========
+// Impressão digital dos dados enviados, para o modo sendOnlyOnChange
+
+export interface RunFingerprint {
+  cells?: string;       // Hash dos valores das células mapeadas
+  screenshot?: string;  // Hash dos bytes das imagens capturadas
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+// Hash dos valores das células mapeadas em cada URL (aba)
+// Retorna undefined se alguma leitura falhou, para não comparar contra dados incompletos
+export async function fingerprintSheetData(
+  sheetUrls: string[],
+  cellMappings: CellMapping[]
+): Promise<string | undefined> {
+  const values: Record<string, Record<string, string>> = {};
+
+  for (const url of [...new Set(sheetUrls)].sort()) {
+    const data = await fetchSheetData(url, cellMappings);
+    if (Object.keys(data).length === 0) return undefined;
+
+    // Ordenar chaves para o hash não depender da ordem dos mapeamentos
+    values[url] = Object.fromEntries(Object.entries(data).sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  return sha256(JSON.stringify(values));
+}
+
+// Hash das imagens capturadas (na ordem dos grupos)
+export function fingerprintScreenshots(images: Buffer[]): string {
+  const hash = crypto.createHash('sha256');
+  for (const image of images) {
+    hash.update(sha256(image));
+  }
+  return hash.digest('hex');
+}
+
+// Comparar com a impressão digital anterior (só compara o que foi calculado nas duas)
+export function isUnchanged(previous: RunFingerprint | undefined, current: RunFingerprint): boolean {
+  if (!previous) return false;
+
+  const keys = (['cells', 'screenshot'] as const).filter(key => current[key] !== undefined);
+  if (keys.length === 0) return false;
+
+  return keys.every(key => previous[key] === current[key]);
+}
@@ -0,0 +1,249 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from './logger.js';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './storage.js';
+import type { RunRecord, RunGroupResult, RunStatus, RunTrigger, ScheduleConfig } from './types.js';
+
+// ========== RUN HISTORY ==========
+// Histórico persistente de execuções (arquivo JSON em DATA_DIR)
+
+export interface RunFilters {
+  schedule?: string;  // ID ou nome do schedule
+  status?: RunStatus;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Recalcular contadores e status a partir dos resultados por grupo
+function refreshTotals(run: RunRecord): void {
+  run.groupsSuccess = run.groups.filter(g => g.status === 'sent' || g.status === 'dry-run').length;
+  run.groupsFailed = run.groups.filter(g => g.status === 'failed').length;
+
+  if (!run.finishedAt || run.status === 'skipped' || run.status === 'cancelled') return;
+
+  if (run.error || (run.groupsSuccess === 0 && !run.groups.some(g => g.status === 'retrying'))) {
+    run.status = 'failed';
+  } else if (run.groupsSuccess < run.groupsTotal) {
+    run.status = 'partial';
+  } else {
+    run.status = 'success';
+  }
+}
+
+class RunHistory {
+  private readonly filePath = dataPath('runs.json');
+  private readonly MAX_RUNS = 2000;
+
+  // O arquivo é relido a cada operação porque index.ts e server.ts podem gravar nele
+  private load(): RunRecord[] {
+    return readJsonFile<RunRecord[]>(this.filePath, []);
+  }
+
+  private save(runs: RunRecord[]): void {
+    try {
+      writeJsonFile(this.filePath, runs.slice(-this.MAX_RUNS));
+    } catch (error) {
+      logger.error('Erro ao salvar histórico de execuções', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  // Ler-alterar-gravar com lock, senão gravações simultâneas dos dois processos se sobrescrevem
+  private update(fn: (runs: RunRecord[]) => boolean): void {
+    try {
+      withFileLock(this.filePath, () => {
+        const runs = this.load();
+        if (fn(runs)) this.save(runs);
+      });
+    } catch (error) {
+      logger.error('Erro ao salvar histórico de execuções', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  // Alterar um registro existente
+  private mutate(id: string, fn: (run: RunRecord) => void): RunRecord | null {
+    let found: RunRecord | null = null;
+
+    this.update(runs => {
+      const run = runs.find(r => r.id === id);
+      if (!run) return false;
+
+      fn(run);
+      found = run;
+      return true;
+    });
+
+    if (!found) {
+      logger.warn('Execução não encontrada no histórico', { runId: id });
+    }
+    return found;
+  }
+
+  // Registrar início de uma execução
+  start(
+    schedule: Pick<ScheduleConfig, 'id' | 'name'>,
+    trigger: RunTrigger,
+    groupsTotal: number,
+    details: { id?: string; scheduledFor?: Date; dryRun?: boolean } = {}
+  ): RunRecord {
+    const run: RunRecord = {
+      id: details.id || uuidv4(),
+      scheduleId: schedule.id,
+      scheduleName: schedule.name,
+      trigger,
+      status: 'running',
+      dryRun: details.dryRun || undefined,
+      scheduledFor: details.scheduledFor?.toISOString(),
+      startedAt: new Date().toISOString(),
+      groupsTotal,
+      groupsSuccess: 0,
+      groupsFailed: 0,
+      groups: [],
+    };
+
+    this.update(runs => {
+      runs.push(run);
+      return true;
+    });
+
+    return run;
+  }
+
+  // Registrar execução que não foi realizada
+  recordSkipped(
+    schedule: Pick<ScheduleConfig, 'id' | 'name'>,
+    trigger: RunTrigger,
+    reason: string,
+    scheduledFor?: Date,
+    id?: string
+  ): RunRecord {
+    const now = new Date().toISOString();
+    const run: RunRecord = {
+      id: id || uuidv4(),
+      scheduleId: schedule.id,
+      scheduleName: schedule.name,
+      trigger,
+      status: 'skipped',
+      scheduledFor: scheduledFor?.toISOString(),
+      skipReason: reason,
+      startedAt: now,
+      finishedAt: now,
+      durationMs: 0,
+      groupsTotal: 0,
+      groupsSuccess: 0,
+      groupsFailed: 0,
+      groups: [],
+    };
+
+    this.update(runs => {
+      runs.push(run);
+      return true;
+    });
+
+    logger.info(`Execução de ${schedule.name} ignorada`, { reason, trigger });
+    return run;
+  }
+
+  // Registrar resultado de um grupo
+  addGroupResult(id: string, result: Omit<RunGroupResult, 'finishedAt'>): void {
+    this.mutate(id, run => {
+      run.groups.push({ ...result, finishedAt: new Date().toISOString() });
+      refreshTotals(run);
+    });
+  }
+
+  // Atualizar resultado de um grupo já registrado (ex: reenvio pela fila de retry)
+  updateGroupResult(id: string, groupId: string, patch: Partial<Omit<RunGroupResult, 'groupId' | 'finishedAt'>>): void {
+    this.mutate(id, run => {
+      const group = run.groups.find(g => g.groupId === groupId);
+      if (!group) return;
+
+      Object.assign(group, patch, { finishedAt: new Date().toISOString() });
+      refreshTotals(run);
+    });
+  }
+
+  // Registrar como cancelados os grupos que ainda não tinham resultado
+  markGroupsCancelled(id: string, groupIds: string[]): void {
+    this.mutate(id, run => {
+      const finishedAt = new Date().toISOString();
+      for (const groupId of groupIds) {
+        if (!run.groups.some(g => g.groupId === groupId)) {
+          run.groups.push({ groupId, status: 'cancelled', finishedAt });
+        }
+      }
+      refreshTotals(run);
+    });
+  }
+
+  // Finalizar execução (status calculado a partir dos grupos, a menos que haja erro)
+  // Grupos ainda na fila de retry deixam a execução como 'partial' até serem resolvidos
+  finish(
+    id: string,
+    details: { error?: string; captureMs?: number; renderMs?: number; cancelled?: boolean } = {}
+  ): RunRecord | null {
+    return this.mutate(id, run => {
+      const finishedAt = new Date();
+      run.finishedAt = finishedAt.toISOString();
+      run.durationMs = finishedAt.getTime() - new Date(run.startedAt).getTime();
+      run.captureMs = details.captureMs;
+      run.renderMs = details.renderMs;
+      run.error = details.error;
+      if (details.cancelled) {
+        run.status = 'cancelled';
+      }
+      refreshTotals(run);
+    });
+  }
+
+  // Marcar execução em andamento como ignorada (ex: planilha sem alterações)
+  skip(id: string, reason: string): RunRecord | null {
+    const run = this.mutate(id, run => {
+      const finishedAt = new Date();
+      run.status = 'skipped';
+      run.skipReason = reason;
+      run.finishedAt = finishedAt.toISOString();
+      run.durationMs = finishedAt.getTime() - new Date(run.startedAt).getTime();
+    });
+
+    if (run) {
+      logger.info(`Execução de ${run.scheduleName} ignorada`, { reason, trigger: run.trigger });
+    }
+    return run;
+  }
+
+  // Registrar decisão de sobreposição (lock) na execução
+  setOverlap(id: string, overlap: NonNullable<RunRecord['overlap']>): void {
+    this.mutate(id, run => {
+      run.overlap = overlap;
+    });
+  }
+
+  // Obter execução por ID
+  get(id: string): RunRecord | null {
+    return this.load().find(r => r.id === id) || null;
+  }
+
+  // Listar execuções (mais recentes primeiro)
+  list(filters: RunFilters = {}): RunRecord[] {
+    const runs = this.load().filter(run => {
+      const startedAt = new Date(run.startedAt);
+      if (filters.schedule && run.scheduleId !== filters.schedule && run.scheduleName !== filters.schedule) {
+        return false;
+      }
+      if (filters.status && run.status !== filters.status) return false;
+      if (filters.from && startedAt < filters.from) return false;
+      if (filters.to && startedAt > filters.to) return false;
+      return true;
+    });
+
+    runs.reverse();
+    return filters.limit ? runs.slice(0, filters.limit) : runs;
+  }
+}
+
+// Instância global do histórico
+export const runHistory = new RunHistory();
@@ -0,0 +1,43 @@
+import type { ImageFormat } from './types.js';
+
+// ========== IMAGE FORMAT ==========
+// Formato identificado pelos bytes da própria imagem: o MIME type acompanha o Buffer
+// por todo o caminho de envio (fila de reenvio, simulação, preview) sem parâmetros extras
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+const EXTENSIONS: Record<ImageFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+};
+
+// Identificar formato pela assinatura do arquivo (padrão: png)
+export function detectImageFormat(image: Buffer): ImageFormat {
+  if (image.length >= 3 && image[0] === 0xff && image[1] === 0xd8 && image[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (image.length >= 12 && image.toString('ascii', 0, 4) === 'RIFF' && image.toString('ascii', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  return 'png';
+}
+
+// MIME type da imagem (ex: image/jpeg)
+export function imageMimeType(image: Buffer): string {
+  return MIME_TYPES[detectImageFormat(image)];
+}
+
+// Extensão de arquivo da imagem, sem ponto (ex: jpg)
+export function imageExtension(image: Buffer): string {
+  return EXTENSIONS[detectImageFormat(image)];
+}
+
+// Data URI da imagem (ex: data:image/webp;base64,...)
+export function toImageDataUri(image: Buffer): string {
+  return `data:${imageMimeType(image)};base64,${image.toString('base64')}`;
+}
@@ -0,0 +1,309 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+import { evaluateInBlankPage } from './screenshot.js';
+import { createTemplateVariables, processTemplate } from './templates.js';
+import type { ImageFormat, ImageOutputConfig, ImageProcessingConfig, ImageWatermarkConfig } from './types.js';
+
+// ========== IMAGE PROCESSING ==========
+// Pós-processamento da captura antes do envio (config 'image' do schedule) e conversão para o
+// formato de saída (config 'output'), feitos em canvas no próprio Chromium do Playwright
+
+export const DEFAULT_BANNER_TEXT = '{scheduleName} - {datetime}';
+
+const WATERMARK_POSITIONS: ImageWatermarkConfig['position'][] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+};
+
+const isPositive = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Validar configuração de pós-processamento (retorna mensagem de erro ou null)
+export function validateImageProcessing(config: ImageProcessingConfig): string | null {
+  if (!config || typeof config !== 'object') {
+    return 'deve ser um objeto';
+  }
+  if (config.padding !== undefined && !(config.padding === 0 || isPositive(config.padding))) {
+    return `'padding' deve ser um número maior ou igual a 0: ${JSON.stringify(config.padding)}`;
+  }
+  if (config.maxWidth !== undefined && !isPositive(config.maxWidth)) {
+    return `'maxWidth' deve ser um número maior que 0: ${JSON.stringify(config.maxWidth)}`;
+  }
+  if (config.banner?.fontSize !== undefined && !isPositive(config.banner.fontSize)) {
+    return `'banner.fontSize' deve ser um número maior que 0: ${JSON.stringify(config.banner.fontSize)}`;
+  }
+
+  const watermark = config.watermark;
+  if (watermark) {
+    if (!watermark.path) {
+      return "'watermark.path' é obrigatório";
+    }
+    if (!IMAGE_MIME_TYPES[path.extname(watermark.path).toLowerCase()]) {
+      return `'watermark.path' deve ser PNG, JPEG, WebP ou SVG: ${watermark.path}`;
+    }
+    if (watermark.position !== undefined && !WATERMARK_POSITIONS.includes(watermark.position)) {
+      return `'watermark.position' deve ser ${WATERMARK_POSITIONS.join(', ')}`;
+    }
+    if (watermark.opacity !== undefined && !(watermark.opacity >= 0 && watermark.opacity <= 1)) {
+      return `'watermark.opacity' deve estar entre 0 e 1: ${JSON.stringify(watermark.opacity)}`;
+    }
+    if (watermark.width !== undefined && !isPositive(watermark.width)) {
+      return `'watermark.width' deve ser um número maior que 0: ${JSON.stringify(watermark.width)}`;
+    }
+  }
+
+  return null;
+}
+
+// Ler logo como data URL
+function readWatermark(filePath: string): string {
+  const file = path.resolve(filePath);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Logo não encontrado: ${file}`);
+  }
+
+  const mime = IMAGE_MIME_TYPES[path.extname(file).toLowerCase()] || 'image/png';
+  return `data:${mime};base64,${fs.readFileSync(file).toString('base64')}`;
+}
+
+// Executado no navegador; recebe as opções já resolvidas e retorna o PNG em base64
+const processImageScript = (options: object): string => `(async (options) => {
+  const load = src => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Imagem inválida'));
+    image.src = src;
+  });
+
+  const image = await load(options.image);
+  const source = document.createElement('canvas');
+  source.width = image.width;
+  source.height = image.height;
+  const sourceContext = source.getContext('2d');
+  sourceContext.drawImage(image, 0, 0);
+
+  // Recorte das bordas com a mesma cor do canto superior esquerdo
+  let box = { x: 0, y: 0, width: image.width, height: image.height };
+  if (options.trim) {
+    const { data, width, height } = sourceContext.getImageData(0, 0, image.width, image.height);
+    const differs = i => Math.abs(data[i] - data[0]) > 10 || Math.abs(data[i + 1] - data[1]) > 10
+      || Math.abs(data[i + 2] - data[2]) > 10;
+    let left = width, top = height, right = -1, bottom = -1;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (differs((y * width + x) * 4)) {
+          if (x < left) left = x;
+          if (x > right) right = x;
+          if (y < top) top = y;
+          if (y > bottom) bottom = y;
+        }
+      }
+    }
+    if (right >= 0) box = { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+  }
+
+  const padding = options.padding;
+  const banner = options.banner;
+  const bannerHeight = banner ? Math.round(banner.fontSize * 2) : 0;
+  const width = box.width + padding * 2;
+  const height = box.height + padding * 2 + bannerHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  context.fillStyle = options.background;
+  context.fillRect(0, 0, width, height);
+  context.drawImage(source, box.x, box.y, box.width, box.height, padding, bannerHeight + padding, box.width, box.height);
+
+  if (banner) {
+    const margin = Math.max(padding, Math.round(banner.fontSize / 2));
+    context.fillStyle = banner.background;
+    context.fillRect(0, 0, width, bannerHeight);
+    context.fillStyle = banner.color;
+    context.font = 'bold ' + banner.fontSize + 'px sans-serif';
+    context.textBaseline = 'middle';
+    context.fillText(banner.text, margin, bannerHeight / 2, width - margin * 2);
+  }
+
+  const watermark = options.watermark;
+  if (watermark) {
+    const logo = await load(watermark.image);
+    const logoWidth = Math.min(watermark.width, width / 3);
+    const logoHeight = logo.height * logoWidth / logo.width;
+    const margin = Math.max(padding, 16);
+    const x = watermark.position.endsWith('right') ? width - logoWidth - margin : margin;
+    const y = watermark.position.startsWith('bottom') ? height - logoHeight - margin : bannerHeight + margin;
+    context.globalAlpha = watermark.opacity;
+    context.drawImage(logo, x, y, logoWidth, logoHeight);
+    context.globalAlpha = 1;
+  }
+
+  let output = canvas;
+  if (options.maxWidth && width > options.maxWidth) {
+    output = document.createElement('canvas');
+    output.width = options.maxWidth;
+    output.height = Math.round(height * options.maxWidth / width);
+    const outputContext = output.getContext('2d');
+    outputContext.imageSmoothingQuality = 'high';
+    outputContext.drawImage(canvas, 0, 0, output.width, output.height);
+  }
+
+  return output.toDataURL('image/png').split(',')[1];
+})(${JSON.stringify(options)})`;
+
+// Aplicar o pós-processamento configurado (sem configuração, retorna a captura original)
+export async function processImage(
+  screenshot: Buffer,
+  config: ImageProcessingConfig | undefined,
+  scheduleName: string,
+  timezone: string
+): Promise<Buffer> {
+  if (!config || !(config.trim || config.padding || config.banner || config.watermark || config.maxWidth)) {
+    return screenshot;
+  }
+
+  const start = Date.now();
+  const banner = config.banner && {
+    text: processTemplate(config.banner.text || DEFAULT_BANNER_TEXT, createTemplateVariables(scheduleName, timezone)),
+    background: config.banner.background || '#075e54',
+    color: config.banner.color || '#ffffff',
+    fontSize: config.banner.fontSize || 28,
+  };
+  const watermark = config.watermark && {
+    image: readWatermark(config.watermark.path),
+    position: config.watermark.position || 'bottom-right',
+    width: config.watermark.width || 120,
+    opacity: config.watermark.opacity ?? 0.8,
+  };
+
+  const base64 = await evaluateInBlankPage<string>(processImageScript({
+    image: `data:image/png;base64,${screenshot.toString('base64')}`,
+    trim: config.trim === true,
+    padding: config.padding || 0,
+    background: config.background || '#ffffff',
+    banner,
+    watermark,
+    maxWidth: config.maxWidth,
+  }));
+
+  const processed = Buffer.from(base64, 'base64');
+  logger.info('Imagem pós-processada', {
+    scheduleName,
+    durationMs: Date.now() - start,
+    originalBytes: screenshot.length,
+    processedBytes: processed.length,
+  });
+  return processed;
+}
+
+// ========== OUTPUT ENCODING ==========
+
+const IMAGE_FORMATS: ImageFormat[] = ['png', 'jpeg', 'webp'];
+const MIN_QUALITY = 40;
+
+// Validar formato de saída (retorna mensagem de erro ou null)
+export function validateImageOutput(output: ImageOutputConfig): string | null {
+  if (!output || !IMAGE_FORMATS.includes(output.format)) {
+    return `'format' deve ser ${IMAGE_FORMATS.join(', ')}: ${JSON.stringify(output?.format)}`;
+  }
+  if (output.quality !== undefined && !(Number.isInteger(output.quality) && output.quality >= 1 && output.quality <= 100)) {
+    return `'quality' deve ser um número inteiro de 1 a 100: ${JSON.stringify(output.quality)}`;
+  }
+  if (output.maxBytes !== undefined && !isPositive(output.maxBytes)) {
+    return `'maxBytes' deve ser um número maior que 0: ${JSON.stringify(output.maxBytes)}`;
+  }
+  return null;
+}
+
+interface EncodeResult {
+  base64: string;
+  bytes: number;
+  quality?: number;
+  scale: number;
+  fits: boolean;  // false = nenhuma tentativa coube em maxBytes (enviada a menor)
+}
+
+// Executado no navegador: codifica reduzindo qualidade e depois dimensões até caber em maxBytes
+const encodeImageScript = (options: object): string => `(async (options) => {
+  const image = await new Promise((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => resolve(element);
+    element.onerror = () => reject(new Error('Imagem inválida'));
+    element.src = options.image;
+  });
+
+  const sizeOf = base64 => Math.floor(base64.length * 3 / 4) - (base64.match(/=*$/)[0].length);
+  const qualities = [options.quality];
+  if (options.format !== 'png' && options.maxBytes) {
+    for (let quality = options.quality - 10; quality >= options.minQuality; quality -= 10) qualities.push(quality);
+  }
+  const scales = options.maxBytes ? [1, 0.85, 0.7, 0.55, 0.4] : [1];
+
+  let best = null;
+  for (const scale of scales) {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const context = canvas.getContext('2d');
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    for (const quality of qualities) {
+      const base64 = canvas.toDataURL('image/' + options.format, quality / 100).split(',')[1];
+      const result = { base64, bytes: sizeOf(base64), quality, scale, fits: true };
+      if (!options.maxBytes || result.bytes <= options.maxBytes) return result;
+      if (!best || result.bytes < best.bytes) best = { ...result, fits: false };
+    }
+  }
+  return best;
+})(${JSON.stringify(options)})`;
+
+// Converter a imagem para o formato de saída (sem configuração ou PNG dentro do limite, retorna a original)
+export async function encodeImage(image: Buffer, output: ImageOutputConfig | undefined): Promise<Buffer> {
+  if (!output || (output.format === 'png' && (!output.maxBytes || image.length <= output.maxBytes))) {
+    return image;
+  }
+
+  const result = await evaluateInBlankPage<EncodeResult>(encodeImageScript({
+    image: `data:image/png;base64,${image.toString('base64')}`,
+    format: output.format,
+    quality: output.quality ?? 85,
+    minQuality: MIN_QUALITY,
+    maxBytes: output.maxBytes,
+  }));
+
+  const details = {
+    format: output.format,
+    originalBytes: image.length,
+    bytes: result.bytes,
+    quality: output.format === 'png' ? undefined : result.quality,
+    scale: result.scale,
+    maxBytes: output.maxBytes,
+  };
+  if (result.fits) {
+    logger.info('Imagem convertida para o formato de saída', details);
+  } else {
+    logger.warn('Imagem acima do limite de tamanho mesmo após reduzir qualidade e dimensões', details);
+  }
+
+  return Buffer.from(result.base64, 'base64');
+}
+
+// Passo entre a captura e o envio: pós-processamento e formato de saída
+export async function prepareImage(
+  screenshot: Buffer,
+  config: ImageProcessingConfig | undefined,
+  output: ImageOutputConfig | undefined,
+  scheduleName: string,
+  timezone: string
+): Promise<Buffer> {
+  return encodeImage(await processImage(screenshot, config, scheduleName, timezone), output);
+}
@@ -3,6 +3,9 @@ import { loadConfig } from './config.js';
 import { logger } from './logger.js';
 import { Scheduler } from './scheduler.js';
 import { closeBrowser } from './screenshot.js';
+import { scheduleLocks } from './lock.js';
+import { configWatcher } from './config-watcher.js';
+import { webhooks } from './webhooks.js';
 
 // Variáveis globais
 let scheduler: Scheduler | null = null;
@@ -12,10 +15,13 @@ async function shutdown(signal: string): Promise<void> {
   logger.info(`Recebido sinal ${signal}. Encerrando...`);
 
   try {
+    configWatcher.stop();
     if (scheduler) {
       await scheduler.stop();
     }
     await closeBrowser();
+    await webhooks.flush(5000);
+    scheduleLocks.releaseAll();
     logger.info('Aplicação encerrada com sucesso');
     process.exit(0);
   } catch (error) {
@@ -56,8 +62,10 @@ async function main(): Promise<void> {
     const configPath = process.env.CONFIG_PATH || './config/config.yaml';
     const config = loadConfig(configPath);
 
-    // Verificar modo de execução
-    const runOnce = process.argv.includes('--run-once');
+    // Verificar modo de execução (--dry-run implica execução única, sem envio)
+    const dryRun = process.argv.includes('--dry-run');
+    const runOnce = process.argv.includes('--run-once') || dryRun;
+    const override = process.argv.includes('--override-window');  // Enviar fora da janela de envio
     const scheduleName = process.argv.find((arg, i) =>
       process.argv[i - 1] === '--schedule'
     );
@@ -67,14 +75,22 @@ async function main(): Promise<void> {
 
     if (runOnce) {
       // Modo de execução única (para testes ou execução manual)
-      logger.info('Modo de execução única ativado');
-      await scheduler.runNow(scheduleName);
+      logger.info(dryRun ? 'Modo de simulação (dry-run) ativado' : 'Modo de execução única ativado');
+      await scheduler.runNow(scheduleName, 'cli', { dryRun, override });
       await closeBrowser();
+      // Webhooks são entregues em segundo plano: aguardar antes de sair (run.finished e novas tentativas)
+      await webhooks.flush();
       logger.info('Execução única concluída');
       process.exit(0);
     } else {
       // Modo de agendamento contínuo
       await scheduler.start();
+
+      // Aplicar edições do config.yaml sem reiniciar
+      configWatcher.start(configPath, newConfig => {
+        scheduler?.reload(newConfig);
+      });
+
       logger.info('Scheduler em execução. Pressione Ctrl+C para encerrar.');
 
       // Manter processo vivo
@@ -0,0 +1,210 @@
+import fs from 'fs';
+import { logger } from './logger.js';
+import { dataPath, readJsonFile } from './storage.js';
+import type { OverlapPolicy } from './types.js';
+
+// ========== SCHEDULE LOCKS ==========
+// Lock por schedule: em memória (mesmo processo) + arquivo em DATA_DIR/locks (entre index.ts e server.ts)
+// Um pedido de cancelamento entre processos é feito criando o arquivo <key>.cancel
+
+interface LockHolder {
+  pid: number;
+  runId?: string;
+  acquiredAt: string; // ISO 8601
+}
+
+export interface LockHandle {
+  key: string;
+  signal: AbortSignal;  // Abortado quando outra execução pede cancelamento
+  attachRun(runId: string): void;
+  release(): void;
+}
+
+export type LockResult =
+  | { handle: LockHandle; contended: boolean; waitedMs: number; cancelledRunId?: string }
+  | { handle: null; reason: string; holder?: LockHolder };
+
+// Erro lançado quando uma execução é cancelada cooperativamente
+export class RunCancelledError extends Error {
+  constructor(message: string = 'Execução cancelada') {
+    super(message);
+    this.name = 'RunCancelledError';
+  }
+}
+
+// Lançar erro se a execução foi cancelada
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RunCancelledError(typeof signal.reason === 'string' ? signal.reason : undefined);
+  }
+}
+
+interface HeldLock {
+  controller: AbortController;
+  watcher: NodeJS.Timeout;
+}
+
+class ScheduleLocks {
+  private held: Map<string, HeldLock> = new Map();
+  private readonly lockDir = dataPath('locks');
+  private readonly POLL_INTERVAL = 1000;
+  private readonly WAIT_TIMEOUT = 30 * 60 * 1000; // 30 minutos
+  private readonly MAX_LOCK_AGE = 3 * 60 * 60 * 1000; // 3 horas - lock considerado abandonado
+
+  private lockFile(key: string): string {
+    return `${this.lockDir}/${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.lock`;
+  }
+
+  private cancelFile(key: string): string {
+    return this.lockFile(key).replace(/\.lock$/, '.cancel');
+  }
+
+  // Verificar se o processo dono do lock ainda existe
+  private isAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  // Lock abandonado: processo morto, lock órfão deste processo ou muito antigo
+  private isStale(key: string, holder: LockHolder | null): boolean {
+    if (!holder) return true;
+    if (holder.pid === process.pid) return !this.held.has(key);
+    if (!this.isAlive(holder.pid)) return true;
+    return Date.now() - new Date(holder.acquiredAt).getTime() > this.MAX_LOCK_AGE;
+  }
+
+  // Ler dono atual do lock
+  getHolder(key: string): LockHolder | null {
+    return readJsonFile<LockHolder | null>(this.lockFile(key), null);
+  }
+
+  // Tentar criar o arquivo de lock (atômico via flag 'wx')
+  private tryAcquire(key: string): LockHandle | null {
+    const file = this.lockFile(key);
+    fs.mkdirSync(this.lockDir, { recursive: true });
+
+    const holder: LockHolder = { pid: process.pid, acquiredAt: new Date().toISOString() };
+
+    try {
+      fs.writeFileSync(file, JSON.stringify(holder), { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      if (!this.isStale(key, this.getHolder(key))) return null;
+
+      logger.warn('Removendo lock abandonado', { key });
+      fs.rmSync(file, { force: true });
+      return this.tryAcquire(key);
+    }
+
+    // Descartar pedido de cancelamento antigo
+    fs.rmSync(this.cancelFile(key), { force: true });
+
+    // O conteúdo do arquivo de cancelamento é o motivo
+    const controller = new AbortController();
+    const watcher = setInterval(() => {
+      if (fs.existsSync(this.cancelFile(key))) {
+        const reason = fs.readFileSync(this.cancelFile(key), 'utf-8').trim();
+        controller.abort(reason || 'Cancelada por outra execução do mesmo schedule');
+      }
+    }, this.POLL_INTERVAL);
+
+    this.held.set(key, { controller, watcher });
+
+    return {
+      key,
+      signal: controller.signal,
+      attachRun: (runId: string) => {
+        fs.writeFileSync(file, JSON.stringify({ ...holder, runId }));
+      },
+      release: () => {
+        clearInterval(watcher);
+        this.held.delete(key);
+        fs.rmSync(file, { force: true });
+        fs.rmSync(this.cancelFile(key), { force: true });
+      },
+    };
+  }
+
+  // Pedir cancelamento da execução que detém o lock
+  private requestCancel(key: string, reason: string): void {
+    const local = this.held.get(key);
+    if (local) {
+      local.controller.abort(reason);
+      return;
+    }
+    fs.writeFileSync(this.cancelFile(key), reason);
+  }
+
+  // Cancelar uma execução específica, se ela ainda detém o lock (inclusive em outro processo)
+  cancelRun(key: string, runId: string, reason: string): boolean {
+    if (this.getHolder(key)?.runId !== runId) return false;
+    this.requestCancel(key, reason);
+    return true;
+  }
+
+  // Adquirir lock respeitando a política de sobreposição
+  // 'signal' permite desistir da espera (ex: execução cancelada enquanto aguardava)
+  async acquire(key: string, policy: OverlapPolicy, signal?: AbortSignal): Promise<LockResult> {
+    const startTime = Date.now();
+    let cancelledRunId: string | undefined;
+    let contended = false;
+
+    for (;;) {
+      const handle = this.tryAcquire(key);
+      if (handle) {
+        return { handle, contended, waitedMs: Date.now() - startTime, cancelledRunId };
+      }
+      contended = true;
+
+      const holder = this.getHolder(key) || undefined;
+
+      if (policy === 'skip') {
+        return { handle: null, reason: 'Execução anterior ainda em andamento (política: skip)', holder };
+      }
+
+      if (policy === 'cancel-previous' && !cancelledRunId) {
+        cancelledRunId = holder?.runId || 'desconhecida';
+        logger.info('Cancelando execução anterior', { key, runId: cancelledRunId, pid: holder?.pid });
+        this.requestCancel(key, 'Cancelada por nova execução do mesmo schedule');
+      }
+
+      if (signal?.aborted) {
+        return { handle: null, reason: typeof signal.reason === 'string' ? signal.reason : 'Execução cancelada', holder };
+      }
+
+      if (Date.now() - startTime > this.WAIT_TIMEOUT) {
+        return { handle: null, reason: 'Tempo de espera pelo lock esgotado', holder };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.POLL_INTERVAL));
+    }
+  }
+
+  // Handle sem lock: simulações não enviam nada, então não disputam o schedule com execuções reais
+  unlocked(key: string): LockHandle {
+    return {
+      key,
+      signal: new AbortController().signal,
+      attachRun: () => {},
+      release: () => {},
+    };
+  }
+
+  // Liberar todos os locks deste processo (shutdown)
+  releaseAll(): void {
+    for (const key of [...this.held.keys()]) {
+      const held = this.held.get(key);
+      if (held) clearInterval(held.watcher);
+      this.held.delete(key);
+      fs.rmSync(this.lockFile(key), { force: true });
+    }
+  }
+}
+
+// Instância global de locks
+export const scheduleLocks = new ScheduleLocks();
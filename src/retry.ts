@@ -0,0 +1,292 @@
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from './logger.js';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './storage.js';
+import { imageExtension } from './image-format.js';
+import { scheduleLocks } from './lock.js';
+import { SendWindowError } from './send-window.js';
+import type { RetrySettings, UazapiSendMediaResponse } from './types.js';
+
+// ========== RETRY QUEUE ==========
+// Fila persistente de reenvio para grupos que falharam
+// Imagens ficam em DATA_DIR/retry/ e a fila em DATA_DIR/retry-queue.json
+// index.ts e server.ts processam a mesma fila: cada item é reivindicado com um lock antes do envio
+
+export interface RetryJob {
+  id: string;
+  runId: string;
+  scheduleId?: string;   // Ausente em itens enfileirados antes do ID estável
+  scheduleName: string;  // Apenas para logs (o schedule pode ser renomeado)
+  groupId: string;
+  caption: string;
+  imageFile: string;
+  attempts: number;
+  createdAt: string;     // ISO 8601
+  nextAttemptAt: string; // ISO 8601
+  lastError?: string;
+}
+
+// Resultado final de um item da fila
+export type RetryOutcome =
+  | { job: RetryJob; status: 'sent'; response: UazapiSendMediaResponse }
+  | { job: RetryJob; status: 'failed'; error: string };
+
+type RetrySendFn = (job: RetryJob, image: Buffer) => Promise<UazapiSendMediaResponse>;
+type RetryOutcomeFn = (outcome: RetryOutcome) => void;
+
+class RetryQueue {
+  private readonly filePath = dataPath('retry-queue.json');
+  private readonly imageDir = dataPath('retry');
+  private checkInterval: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  private load(): RetryJob[] {
+    return readJsonFile<RetryJob[]>(this.filePath, []);
+  }
+
+  // Ler-alterar-gravar a fila com lock entre processos
+  private update(fn: (jobs: RetryJob[]) => RetryJob[]): void {
+    withFileLock(this.filePath, () => {
+      writeJsonFile(this.filePath, fn(this.load()));
+    });
+  }
+
+  // Remover item da fila e sua imagem
+  private remove(jobId: string): void {
+    let job: RetryJob | undefined;
+    this.update(jobs => {
+      job = jobs.find(j => j.id === jobId);
+      return jobs.filter(j => j.id !== jobId);
+    });
+
+    if (job) {
+      fs.rm(job.imageFile, { force: true }, () => {});
+    }
+  }
+
+  // Enfileirar um envio com falha
+  enqueue(
+    params: {
+      runId: string;
+      scheduleId: string;
+      scheduleName: string;
+      groupId: string;
+      image: Buffer;
+      caption: string;
+      error: string;
+    },
+    settings: RetrySettings
+  ): RetryJob {
+    const id = uuidv4();
+    const imageFile = dataPath('retry', `${id}.${imageExtension(params.image)}`);
+
+    fs.mkdirSync(this.imageDir, { recursive: true });
+    fs.writeFileSync(imageFile, params.image);
+
+    const now = Date.now();
+    const job: RetryJob = {
+      id,
+      runId: params.runId,
+      scheduleId: params.scheduleId,
+      scheduleName: params.scheduleName,
+      groupId: params.groupId,
+      caption: params.caption,
+      imageFile,
+      attempts: 0,
+      createdAt: new Date(now).toISOString(),
+      nextAttemptAt: new Date(now + settings.initialDelay).toISOString(),
+      lastError: params.error,
+    };
+
+    this.update(jobs => [...jobs, job]);
+
+    logger.info('Envio adicionado à fila de retry', {
+      groupId: job.groupId,
+      scheduleName: job.scheduleName,
+      nextAttemptAt: job.nextAttemptAt,
+    });
+
+    return job;
+  }
+
+  // Processar itens vencidos
+  async process(
+    settings: RetrySettings,
+    send: RetrySendFn,
+    onOutcome: RetryOutcomeFn,
+    delayBetweenGroups: number
+  ): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const now = Date.now();
+      const due = this.load().filter(j => new Date(j.nextAttemptAt).getTime() <= now);
+
+      for (let i = 0; i < due.length; i++) {
+        const attempted = await this.claimAndAttempt(due[i].id, settings, send, onOutcome);
+
+        if (attempted && i < due.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, delayBetweenGroups));
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  // Reivindicar o item (lock 'retry-<id>') e tentar reenviá-lo
+  // Retorna false se outro processo já está com ele ou se ele já saiu da fila
+  private async claimAndAttempt(
+    jobId: string,
+    settings: RetrySettings,
+    send: RetrySendFn,
+    onOutcome: RetryOutcomeFn
+  ): Promise<boolean> {
+    const claim = await scheduleLocks.acquire(`retry-${jobId}`, 'skip');
+    if (!claim.handle) return false;
+
+    try {
+      // Reler depois do lock: o outro processo pode ter enviado ou reagendado o item
+      const job = this.load().find(j => j.id === jobId);
+      if (!job || new Date(job.nextAttemptAt).getTime() > Date.now()) return false;
+
+      await this.attempt(job, settings, send, onOutcome);
+      return true;
+    } finally {
+      claim.handle.release();
+    }
+  }
+
+  // Tentar reenviar um item
+  private async attempt(
+    job: RetryJob,
+    settings: RetrySettings,
+    send: RetrySendFn,
+    onOutcome: RetryOutcomeFn
+  ): Promise<void> {
+    const age = Date.now() - new Date(job.createdAt).getTime();
+    if (age > settings.maxAge) {
+      logger.warn('Envio descartado da fila de retry (idade máxima excedida)', {
+        groupId: job.groupId,
+        scheduleName: job.scheduleName,
+      });
+      this.remove(job.id);
+      onOutcome({ job, status: 'failed', error: `Idade máxima excedida. Último erro: ${job.lastError}` });
+      return;
+    }
+
+    if (!fs.existsSync(job.imageFile)) {
+      this.remove(job.id);
+      onOutcome({ job, status: 'failed', error: 'Imagem do envio pendente não encontrada' });
+      return;
+    }
+
+    job.attempts++;
+    logger.info(`Reenviando para grupo ${job.groupId} (tentativa ${job.attempts}/${settings.maxAttempts})`, {
+      scheduleName: job.scheduleName,
+    });
+
+    try {
+      const response = await send(job, fs.readFileSync(job.imageFile));
+      this.remove(job.id);
+      onOutcome({ job, status: 'sent', response });
+    } catch (error) {
+      // Fora da janela de envio: adiar até a abertura sem consumir tentativa
+      if (error instanceof SendWindowError) {
+        job.attempts--;
+        job.nextAttemptAt = (error.nextAllowedAt || new Date(Date.now() + settings.initialDelay)).toISOString();
+        this.update(jobs => jobs.map(j => (j.id === job.id ? job : j)));
+
+        logger.info(`Reenvio para grupo ${job.groupId} adiado para a próxima janela de envio`, {
+          scheduleName: job.scheduleName,
+          nextAttemptAt: job.nextAttemptAt,
+        });
+        return;
+      }
+
+      job.lastError = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts >= settings.maxAttempts) {
+        logger.error(`Reenvio para grupo ${job.groupId} esgotou as tentativas`, {
+          scheduleName: job.scheduleName,
+          error: job.lastError,
+        });
+        this.remove(job.id);
+        onOutcome({ job, status: 'failed', error: job.lastError });
+        return;
+      }
+
+      // Backoff exponencial: initialDelay, 2x, 4x, ...
+      const delay = settings.initialDelay * Math.pow(2, job.attempts);
+      job.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+
+      this.update(jobs => jobs.map(j => (j.id === job.id ? job : j)));
+
+      logger.warn(`Reenvio para grupo ${job.groupId} falhou, nova tentativa agendada`, {
+        error: job.lastError,
+        nextAttemptAt: job.nextAttemptAt,
+      });
+    }
+  }
+
+  // Remover da fila os reenvios de uma execução cancelada (retorna os grupos removidos)
+  // Itens sendo reenviados neste momento (lock de outro processo) não são interrompidos
+  async cancelRun(runId: string): Promise<string[]> {
+    const removed: string[] = [];
+
+    for (const { id } of this.load().filter(j => j.runId === runId)) {
+      const claim = await scheduleLocks.acquire(`retry-${id}`, 'skip');
+      if (!claim.handle) continue;
+
+      try {
+        const job = this.load().find(j => j.id === id);
+        if (job) {
+          this.remove(job.id);
+          removed.push(job.groupId);
+        }
+      } finally {
+        claim.handle.release();
+      }
+    }
+
+    if (removed.length > 0) {
+      logger.info('Reenvios pendentes removidos (execução cancelada)', { runId, groups: removed });
+    }
+    return removed;
+  }
+
+  // Iniciar verificação periódica
+  start(settings: RetrySettings, tick: () => Promise<void>): void {
+    this.stop();
+
+    this.checkInterval = setInterval(() => {
+      tick().catch(err => {
+        logger.error('Erro ao processar fila de retry', {
+          error: err instanceof Error ? err.message : err,
+        });
+      });
+    }, settings.checkInterval);
+
+    logger.info('Fila de retry iniciada', {
+      pending: this.load().length,
+      interval: `${settings.checkInterval / 1000}s`,
+    });
+  }
+
+  // Parar verificação periódica
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  // Obter itens pendentes
+  getPending(): RetryJob[] {
+    return this.load();
+  }
+}
+
+// Instância global da fila de retry
+export const retryQueue = new RetryQueue();
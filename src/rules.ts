@@ -0,0 +1,113 @@
+import type { AlertRuleConfig } from './types.js';
+
+// ========== ALERT RULES ==========
+// Condições sobre células mapeadas (ex: "atingimento < 70%", "vendasDia >= meta")
+
+export type RuleOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+export interface RuleCondition {
+  source: string;    // Texto original da condição
+  variable: string;  // Variável do cellMappings (lado esquerdo)
+  operator: RuleOperator;
+  operand: { variable: string } | { value: string };  // Outra variável ou valor literal
+}
+
+export interface RuleEvaluation {
+  matched: boolean;
+  details: string[];  // Uma linha por condição (ex: "atingimento < 70%: 65,2% → sim")
+}
+
+const CONDITION_PATTERN = /^\s*([A-Za-z_]\w*)\s*(<=|>=|==|!=|=|<|>)\s*(.+?)\s*$/;
+
+// Interpretar número no formato brasileiro (ex: "1.234,56", "R$ 10,5", "70%", "-3,2 %")
+export function parseBrazilianNumber(value: string): number | null {
+  let text = value.trim().replace(/^R\$\s*/i, '').replace(/%$/, '').replace(/\s/g, '');
+
+  if (text.includes(',')) {
+    // Vírgula decimal: pontos são separadores de milhar
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (/^[-+]?\d{1,3}(\.\d{3})+$/.test(text)) {
+    // Pontos em grupos de 3 dígitos sem vírgula são separadores de milhar (ex: "12.000", "1.234.567")
+    text = text.replace(/\./g, '');
+  }
+
+  if (!/^[-+]?\d+(\.\d+)?$/.test(text)) return null;
+  return Number(text);
+}
+
+// Interpretar condição em texto
+export function parseCondition(source: string): RuleCondition {
+  const match = CONDITION_PATTERN.exec(source);
+  if (!match) {
+    throw new Error(`Condição inválida: "${source}" (use: variavel operador valor, ex: "atingimento < 70%")`);
+  }
+
+  const [, variable, rawOperator, rawOperand] = match;
+  const operator = (rawOperator === '=' ? '==' : rawOperator) as RuleOperator;
+
+  // Valor entre aspas é literal; identificador é outra variável; demais são literais
+  const quoted = /^(['"])(.*)\1$/.exec(rawOperand);
+  const operand = quoted
+    ? { value: quoted[2] }
+    : /^[A-Za-z_]\w*$/.test(rawOperand)
+      ? { variable: rawOperand }
+      : { value: rawOperand };
+
+  return { source: source.trim(), variable, operator, operand };
+}
+
+// Normalizar campo 'condition' (texto ou lista)
+export function getRuleConditions(rule: AlertRuleConfig): RuleCondition[] {
+  const sources = Array.isArray(rule.condition) ? rule.condition : [rule.condition];
+  return sources.map(parseCondition);
+}
+
+// Comparar dois valores (numérico quando possível, senão texto sem diferenciar maiúsculas)
+function compare(left: string, operator: RuleOperator, right: string): boolean | string {
+  const leftNumber = parseBrazilianNumber(left);
+  const rightNumber = parseBrazilianNumber(right);
+
+  if (leftNumber !== null && rightNumber !== null) {
+    switch (operator) {
+      case '<': return leftNumber < rightNumber;
+      case '<=': return leftNumber <= rightNumber;
+      case '>': return leftNumber > rightNumber;
+      case '>=': return leftNumber >= rightNumber;
+      case '==': return leftNumber === rightNumber;
+      case '!=': return leftNumber !== rightNumber;
+    }
+  }
+
+  if (operator === '==' || operator === '!=') {
+    const equal = left.trim().toLowerCase() === right.trim().toLowerCase();
+    return operator === '==' ? equal : !equal;
+  }
+
+  return `valor não numérico ("${leftNumber === null ? left : right}")`;
+}
+
+// Avaliar regra sobre os dados da planilha
+export function evaluateRule(rule: AlertRuleConfig, sheetData: Record<string, string>): RuleEvaluation {
+  const results = getRuleConditions(rule).map(condition => {
+    const left = sheetData[condition.variable];
+    const right = 'variable' in condition.operand ? sheetData[condition.operand.variable] : condition.operand.value;
+
+    if (left === undefined || left === '' || right === undefined || right === '') {
+      return { matched: false, detail: `${condition.source}: sem valor na planilha` };
+    }
+
+    const outcome = compare(left, condition.operator, right);
+    if (typeof outcome === 'string') {
+      return { matched: false, detail: `${condition.source}: ${outcome}` };
+    }
+
+    const values = 'variable' in condition.operand ? `${left} ${condition.operator} ${right}` : left;
+    return { matched: outcome, detail: `${condition.source}: ${values} → ${outcome ? 'sim' : 'não'}` };
+  });
+
+  const matched = rule.match === 'any'
+    ? results.some(r => r.matched)
+    : results.every(r => r.matched);
+
+  return { matched, details: results.map(r => r.detail) };
+}
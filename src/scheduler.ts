@@ -1,23 +1,77 @@
 import cron from 'node-cron';
+import { v4 as uuidv4 } from 'uuid';
 import { logger } from './logger.js';
-import type { ScheduleConfig, AppConfig, SheetTabConfig } from './types.js';
+import type { ScheduleConfig, AppConfig, SheetTabConfig, RunTrigger, SettingsConfig, WebhookEventType } from './types.js';
 import { initBrowser, closeBrowser, captureScreenshotWithRetry, captureScreenshotsParallel } from './screenshot.js';
+import type { RenderTiming } from './screenshot.js';
 import { UazapiClient } from './uazapi.js';
 import { createMessageWithSheetData } from './templates.js';
-import { buildSheetUrlWithTab } from './sheets.js';
+import { buildSheetUrlWithTab, buildRangeUrl, fetchSheetData } from './sheets.js';
+import { runHistory } from './history.js';
+import { runEvents } from './events.js';
+import { webhooks } from './webhooks.js';
+import { adminAlerts, type AdminAlert } from './admin-alerts.js';
+import { createDigestMessage, getRunsOfDay, digestState } from './digest.js';
+import { retryQueue, type RetryOutcome } from './retry.js';
+import { connectionMonitor } from './connection.js';
+import { schedulerState } from './state.js';
+import { getOccurrencesBetween, getCronExpressions, getNextOccurrences, getZonedDateParts } from './cron.js';
+import { isScheduleEnabled, getScheduleTimezone, getSendWindow, getImageOutput } from './config.js';
+import { assertSendAllowed, SendWindowError, type SendGuard } from './send-window.js';
+import { findBlockedDay } from './calendar.js';
+import { scheduleLocks, throwIfCancelled, RunCancelledError, type LockResult } from './lock.js';
+import { evaluateRule } from './rules.js';
+import { writeDryRunOutput, getDryRunDir } from './dry-run.js';
+import { prepareImage } from './image-processing.js';
+import { fingerprintSheetData, fingerprintScreenshots, isUnchanged, type RunFingerprint } from './fingerprint.js';
+
+// Motivo para não executar um disparo agendado (pausa, feriado ou bloqueio)
+export function getScheduleSkipReason(schedule: ScheduleConfig, date: Date, settings: SettingsConfig): string | null {
+  if (!isScheduleEnabled(schedule, date, settings.timezone)) {
+    return schedule.resumeAt ? `Schedule pausado até ${schedule.resumeAt}` : 'Schedule pausado';
+  }
+
+  if (schedule.skipHolidays) {
+    const blocked = findBlockedDay(date, getScheduleTimezone(schedule, settings), settings);
+    if (blocked) {
+      return blocked.type === 'holiday' ? `Feriado: ${blocked.name}` : `Bloqueio: ${blocked.name}`;
+    }
+  }
+
+  return null;
+}
+
+// Próximo disparo que será de fato executado (ignora os que cairiam em pausa, feriado ou bloqueio)
+export function getNextRunAt(schedule: ScheduleConfig, settings: SettingsConfig, from: Date = new Date()): Date | null {
+  const candidates = getNextOccurrences(getCronExpressions(schedule.cron), from, 50, getScheduleTimezone(schedule, settings));
+  return candidates.find(date => !getScheduleSkipReason(schedule, date, settings)) || null;
+}
+
+const UNCHANGED_REASON = 'Planilha sem alterações desde o último envio';
+export const USER_CANCEL_REASON = 'Cancelada pelo usuário';
 
 interface ScheduledTask {
   name: string;
-  task: cron.ScheduledTask;
+  tasks: cron.ScheduledTask[];  // Uma task por expressão cron
   config: ScheduleConfig;
 }
 
+// Opções de uma execução
+interface ExecuteOptions {
+  scheduledFor?: Date;  // Horário previsto (execução atrasada)
+  dryRun?: boolean;     // Simulação: grava as mensagens em arquivo em vez de enviar
+  runId?: string;       // ID pré-definido (permite ao chamador acompanhar/cancelar a execução)
+  override?: boolean;   // Enviar mesmo fora da janela de envio (administrador)
+}
+
 // Gerenciador de agendamentos
 export class Scheduler {
   private tasks: ScheduledTask[] = [];
   private uazapiClient: UazapiClient;
   private appConfig: AppConfig;
   private isRunning: boolean = false;
+  private activeRuns: Map<string, AbortController> = new Map();  // Execuções deste processo (por runId)
+  private digestTask: cron.ScheduledTask | null = null;
 
   constructor(config: AppConfig) {
     this.appConfig = config;
@@ -27,16 +81,355 @@ export class Scheduler {
     this.uazapiClient = new UazapiClient(config.uazapi);
   }
 
+  // Enfileirar envio com falha para nova tentativa (retorna false se retry desabilitado)
+  private queueRetry(
+    runId: string,
+    schedule: ScheduleConfig,
+    groupId: string,
+    image: Buffer,
+    caption: string,
+    error: string
+  ): boolean {
+    const settings = this.appConfig.settings.retry;
+    if (!settings.enabled) return false;
+
+    try {
+      retryQueue.enqueue(
+        { runId, scheduleId: schedule.id, scheduleName: schedule.name, groupId, image, caption, error },
+        settings
+      );
+      return true;
+    } catch (queueError) {
+      logger.error('Erro ao adicionar envio à fila de retry', {
+        groupId,
+        error: queueError instanceof Error ? queueError.message : queueError,
+      });
+      return false;
+    }
+  }
+
+  // Notificar webhooks configurados
+  private notify(event: WebhookEventType, data: unknown): void {
+    webhooks.dispatch(event, data, this.appConfig.settings.webhooks);
+  }
+
+  // Notificar falha definitiva de um grupo
+  private notifyGroupFailed(runId: string, groupId: string, error: string, attempts?: number): void {
+    const run = runHistory.get(runId);
+    if (run?.dryRun) return;  // Simulações não disparam webhooks
+    this.notify('group.failed', {
+      runId,
+      scheduleId: run?.scheduleId,
+      scheduleName: run?.scheduleName,
+      groupId,
+      error,
+      attempts,
+    });
+  }
+
+  // Registrar grupo com falha definitiva (sem reenvio)
+  private recordGroupFailure(runId: string, groupId: string, error: string): void {
+    runHistory.addGroupResult(runId, { groupId, status: 'failed', error });
+    this.notifyGroupFailed(runId, groupId, error);
+  }
+
+  // Registrar resultado de envio com falha (na fila de retry ou definitivo)
+  private recordSendFailure(
+    runId: string,
+    schedule: ScheduleConfig,
+    groupId: string,
+    image: Buffer,
+    caption: string,
+    error: string
+  ): void {
+    if (this.queueRetry(runId, schedule, groupId, image, caption, error)) {
+      runHistory.addGroupResult(runId, { groupId, status: 'retrying', error });
+    } else {
+      this.recordGroupFailure(runId, groupId, error);
+    }
+  }
+
+  // Avisar administradores (config 'alerts') sem bloquear a execução
+  private alertAdmins(alert: AdminAlert, whatsappDown: boolean = false): void {
+    adminAlerts.notify(
+      alert,
+      this.appConfig.alerts,
+      this.appConfig.settings.timezone,
+      (recipient, text) => this.uazapiClient.sendText(recipient, text),
+      whatsappDown
+    ).catch(error => {
+      logger.error('Erro ao avisar administradores', {
+        error: error instanceof Error ? error.message : error,
+      });
+    });
+  }
+
+  // Verificar conexão com o WhatsApp (webhook quando a conexão cai)
+  private async checkConnection(): Promise<boolean> {
+    const connected = await this.uazapiClient.isConnected();
+
+    if (connectionMonitor.record(connected)) {
+      this.notify('whatsapp.disconnected', {
+        instanceId: this.appConfig.uazapi?.instanceId,
+        checkedAt: new Date().toISOString(),
+      });
+    }
+
+    return connected;
+  }
+
+  // Processar fila de retry
+  private async processRetryQueue(): Promise<void> {
+    if (retryQueue.getPending().length === 0) return;
+
+    const connected = await this.checkConnection();
+    if (!connected) {
+      logger.warn('WhatsApp não conectado. Fila de retry aguardando conexão.');
+      return;
+    }
+
+    await retryQueue.process(
+      this.appConfig.settings.retry,
+      (job, image) => {
+        // Reenvios respeitam a janela do schedule de origem (ou a global); itens antigos não têm scheduleId
+        const schedule = job.scheduleId
+          ? this.appConfig.schedules.find(s => s.id === job.scheduleId)
+          : this.appConfig.schedules.find(s => s.name === job.scheduleName);
+        const guard: SendGuard = schedule
+          ? this.sendGuardFor(schedule)
+          : { window: this.appConfig.settings.sendWindow, timezone: this.appConfig.settings.timezone };
+        return this.uazapiClient.sendImage(job.groupId, image, job.caption, guard);
+      },
+      (outcome: RetryOutcome) => {
+        if (outcome.status === 'sent') {
+          runHistory.updateGroupResult(outcome.job.runId, outcome.job.groupId, {
+            status: 'sent',
+            messageId: outcome.response.messageId || outcome.response.id,
+            error: undefined,
+            attempts: outcome.job.attempts,
+          });
+        } else {
+          runHistory.updateGroupResult(outcome.job.runId, outcome.job.groupId, {
+            status: 'failed',
+            error: outcome.error,
+            attempts: outcome.job.attempts,
+          });
+          this.notifyGroupFailed(outcome.job.runId, outcome.job.groupId, outcome.error, outcome.job.attempts);
+        }
+      },
+      this.appConfig.settings.delayBetweenGroups
+    );
+  }
+
+  // Motivo para não executar um disparo agendado (pausa, feriado ou bloqueio)
+  private getSkipReason(schedule: ScheduleConfig, date: Date): string | null {
+    return getScheduleSkipReason(schedule, date, this.appConfig.settings);
+  }
+
+  // Timezone efetivo do schedule
+  private timezoneFor(schedule: ScheduleConfig): string {
+    return getScheduleTimezone(schedule, this.appConfig.settings);
+  }
+
+  // Pós-processar a captura (config 'image') e converter para o formato de saída (config 'output')
+  // Se o processamento falhar, envia a captura original
+  private async postProcess(schedule: ScheduleConfig, screenshot: Buffer): Promise<Buffer> {
+    try {
+      return await prepareImage(
+        screenshot,
+        schedule.image,
+        getImageOutput(schedule, this.appConfig.settings),
+        schedule.name,
+        this.timezoneFor(schedule)
+      );
+    } catch (error) {
+      logger.error('Erro no pós-processamento da imagem, usando a captura original', {
+        schedule: schedule.name,
+        error: error instanceof Error ? error.message : error,
+      });
+      return screenshot;
+    }
+  }
+
+  // Janela de envio efetiva do schedule
+  private sendGuardFor(schedule: ScheduleConfig, override?: boolean): SendGuard {
+    return {
+      window: getSendWindow(schedule, this.appConfig.settings),
+      timezone: this.timezoneFor(schedule),
+      override,
+    };
+  }
+
+  // URL da planilha usada para um grupo (aba específica, se configurada)
+  private sheetUrlForGroup(schedule: ScheduleConfig, groupId: string): string {
+    const tabConfig = schedule.sheetTabs?.find(t => t.groupId === groupId);
+    return buildSheetUrlWithTab(schedule.sheetUrl, tabConfig?.tabGid || tabConfig?.tabName);
+  }
+
+  // URL capturada para um grupo: com intervalo A1 (da aba ou do schedule), usa a visualização do intervalo
+  private captureUrlForGroup(schedule: ScheduleConfig, groupId: string): string {
+    const tabConfig = schedule.sheetTabs?.find(t => t.groupId === groupId);
+    return buildRangeUrl(this.sheetUrlForGroup(schedule, groupId), tabConfig?.range || schedule.range);
+  }
+
+  // Verificar se nada mudou desde o último envio bem-sucedido (modo sendOnlyOnChange)
+  // Execuções manuais sempre enviam
+  private isUnchangedSinceLastSend(schedule: ScheduleConfig, trigger: RunTrigger, fingerprint: RunFingerprint): boolean {
+    if (trigger === 'manual' || trigger === 'cli') return false;
+    return isUnchanged(schedulerState.get(schedule.id).lastSent, fingerprint);
+  }
+
+  // Data atual (YYYY-MM-DD) no timezone do schedule
+  private todayFor(schedule: ScheduleConfig): string {
+    const { year, month, day } = getZonedDateParts(new Date(), this.timezoneFor(schedule));
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  // Avaliar regra de alerta (retorna motivo para não enviar ou null)
+  // Execuções manuais ignoram a trava diária, mas a condição sempre é avaliada
+  private async checkAlertRule(schedule: ScheduleConfig, trigger: RunTrigger): Promise<string | null> {
+    const alert = schedule.alert!;
+    const isManual = trigger === 'manual' || trigger === 'cli';
+
+    if (alert.oncePerDay && !isManual && schedulerState.get(schedule.id).alertSentOn === this.todayFor(schedule)) {
+      return 'Alerta já enviado hoje';
+    }
+
+    const sheetData = await fetchSheetData(schedule.sheetUrl, schedule.cellMappings || []);
+    const evaluation = evaluateRule(alert, sheetData);
+
+    logger.info(`Regra de alerta de ${schedule.name}: ${evaluation.matched ? 'atendida' : 'não atendida'}`, {
+      details: evaluation.details,
+    });
+
+    return evaluation.matched ? null : `Condição não atendida (${evaluation.details.join('; ')})`;
+  }
+
+  // Adicionar aviso de atraso à legenda (execuções recuperadas)
+  private decorateCaption(message: string, schedule: ScheduleConfig, options: ExecuteOptions): string {
+    if (!options.scheduledFor) return message;
+
+    const time = new Intl.DateTimeFormat('pt-BR', {
+      timeZone: this.timezoneFor(schedule),
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(options.scheduledFor);
+
+    return `⏰ *Envio atrasado* (previsto para ${time})\n\n${message}`;
+  }
+
   // Executar um schedule individual
-  private async executeSchedule(schedule: ScheduleConfig): Promise<void> {
+  private async executeSchedule(
+    schedule: ScheduleConfig,
+    trigger: RunTrigger,
+    options: ExecuteOptions = {}
+  ): Promise<void> {
+    // Registrar o cancelamento antes do lock: a execução pode ser cancelada enquanto aguarda
+    const runId = options.runId || uuidv4();
+    const controller = new AbortController();
+    this.activeRuns.set(runId, controller);
+
+    // Garantir uma única execução por schedule (neste e em outros processos)
+    // Simulação não usa o lock: não cancela nem espera execuções reais (e não é cancelada por elas)
+    const policy = schedule.overlapPolicy || 'skip';
+    const lock: LockResult = options.dryRun
+      ? { handle: scheduleLocks.unlocked(schedule.id), contended: false, waitedMs: 0 }
+      : await scheduleLocks.acquire(schedule.id, policy, controller.signal);
+    if (!lock.handle) {
+      this.activeRuns.delete(runId);
+      logger.warn(`Execução de ${schedule.name} não iniciada: ${lock.reason}`, {
+        holderRunId: lock.holder?.runId,
+        holderPid: lock.holder?.pid,
+      });
+      const skipped = runHistory.recordSkipped(schedule, trigger, lock.reason, options.scheduledFor, runId);
+      this.emitRunFinished(skipped.id);
+      return;
+    }
+
+    // Cancelada por outra execução (lock) ou pelo usuário
+    const signal = AbortSignal.any([lock.handle.signal, controller.signal]);
     const startTime = Date.now();
-    logger.info(`Iniciando execução do schedule: ${schedule.name}`);
+    const run = runHistory.start(schedule, trigger, schedule.groups.length, {
+      id: runId,
+      scheduledFor: options.scheduledFor,
+      dryRun: options.dryRun,
+    });
+    lock.handle.attachRun(run.id);
+    const onEvent = runEvents.listenerFor(run.id);
+    onEvent({
+      type: 'run-started',
+      scheduleId: schedule.id,
+      scheduleName: schedule.name,
+      trigger,
+      groupsTotal: schedule.groups.length,
+      dryRun: options.dryRun,
+    });
+    if (!options.dryRun) {
+      this.notify('run.started', run);  // Simulações não disparam webhooks
+    }
+    let captureMs = 0;
+    let renderMs: number | undefined;
+    logger.info(`Iniciando execução do schedule: ${schedule.name}`, { runId: run.id, trigger });
+
+    if (lock.contended) {
+      runHistory.setOverlap(run.id, {
+        policy,
+        waitedMs: lock.waitedMs,
+        cancelledRunId: lock.cancelledRunId,
+      });
+    }
 
     try {
-      // Verificar conexão com WhatsApp
-      const connected = await this.uazapiClient.isConnected();
-      if (!connected) {
-        throw new Error('WhatsApp não conectado');
+      // Schedule de alerta: só segue se a condição for atendida
+      if (schedule.alert) {
+        const alertSkipReason = await this.checkAlertRule(schedule, trigger);
+        if (alertSkipReason) {
+          runHistory.skip(run.id, alertSkipReason);
+          return;
+        }
+      }
+      const messageTemplate = schedule.alert?.messageTemplate || schedule.messageTemplate;
+
+      // Fora da janela de envio: recusar antes de capturar (simulação não envia)
+      const sendGuard = this.sendGuardFor(schedule, options.override);
+      if (!options.dryRun) {
+        assertSendAllowed(sendGuard);
+      }
+
+      // Verificar conexão com WhatsApp (simulação não usa o WhatsApp)
+      if (!options.dryRun) {
+        const connected = await this.checkConnection();
+        if (!connected) {
+          this.alertAdmins({
+            key: 'whatsapp-disconnected',
+            scheduleName: schedule.name,
+            error: 'WhatsApp não conectado',
+            groups: schedule.groups,
+          }, true);
+          throw new Error('WhatsApp não conectado');
+        }
+      }
+      throwIfCancelled(signal);
+
+      // Verificar se há configuração de abas por grupo
+      const hasTabConfigs = schedule.sheetTabs && schedule.sheetTabs.length > 0;
+
+      // Modo sendOnlyOnChange: sem células mapeadas, a comparação é feita pela imagem
+      const fingerprint: RunFingerprint = {};
+      const compareScreenshot = schedule.sendOnlyOnChange
+        && (schedule.compareScreenshot || !schedule.cellMappings?.length);
+
+      if (schedule.sendOnlyOnChange && schedule.cellMappings?.length) {
+        const sheetUrls = hasTabConfigs
+          ? schedule.groups.map(groupId => this.sheetUrlForGroup(schedule, groupId))
+          : [schedule.sheetUrl];
+        fingerprint.cells = await fingerprintSheetData(sheetUrls, schedule.cellMappings);
+
+        // Sem comparar imagem, dá para decidir antes de capturar
+        if (!compareScreenshot && this.isUnchangedSinceLastSend(schedule, trigger, fingerprint)) {
+          runHistory.skip(run.id, UNCHANGED_REASON);
+          return;
+        }
       }
 
       // Inicializar browser se necessário
@@ -45,9 +438,6 @@ export class Scheduler {
       let successful = 0;
       let failed = 0;
 
-      // Verificar se há configuração de abas por grupo
-      const hasTabConfigs = schedule.sheetTabs && schedule.sheetTabs.length > 0;
-
       if (hasTabConfigs) {
         // Modo: screenshot específico por grupo/aba (com captura paralela)
         logger.info(`Processando ${schedule.groups.length} grupos com abas específicas (modo paralelo)`);
@@ -56,61 +446,118 @@ export class Scheduler {
         const captureTasks: { url: string; id: string; tabConfig?: SheetTabConfig }[] = [];
 
         for (const groupId of schedule.groups) {
-          const tabConfig = schedule.sheetTabs?.find(t => t.groupId === groupId);
-          const tabIdentifier = tabConfig?.tabGid || tabConfig?.tabName;
-          const sheetUrlForGroup = buildSheetUrlWithTab(schedule.sheetUrl, tabIdentifier);
-
           captureTasks.push({
-            url: sheetUrlForGroup,
+            url: this.captureUrlForGroup(schedule, groupId),
             id: groupId,
-            tabConfig,
+            tabConfig: schedule.sheetTabs?.find(t => t.groupId === groupId),
           });
         }
 
         // Capturar screenshots em paralelo
         logger.info(`Capturando ${captureTasks.length} screenshots em paralelo...`);
+        const captureStart = Date.now();
         const screenshotResults = await captureScreenshotsParallel(
           captureTasks,
           schedule.viewport || this.appConfig.browser.defaultViewport,
           schedule.selector,
           schedule.waitAfterLoad || this.appConfig.settings.waitAfterLoad,
-          schedule.clip
+          schedule.clip,
+          signal,
+          onEvent,
+          schedule.presentation
         );
+        captureMs = Date.now() - captureStart;
+        const renderTimes = screenshotResults.filter(r => r.render).map(r => r.render!.renderMs);
+        renderMs = renderTimes.length > 0 ? Math.max(...renderTimes) : undefined;
+        throwIfCancelled(signal);
+
+        const captureFailures = screenshotResults.filter(r => r.error);
+        if (captureFailures.length > 0 && !options.dryRun) {
+          this.alertAdmins({
+            key: `capture-failed:${schedule.id}`,
+            scheduleName: schedule.name,
+            error: `Falha na captura: ${captureFailures[0].error}`,
+            groups: captureFailures.map(r => r.id),
+          });
+        }
+
+        if (compareScreenshot) {
+          fingerprint.screenshot = fingerprintScreenshots(
+            screenshotResults.filter(r => r.screenshot).map(r => r.screenshot!)
+          );
+          if (this.isUnchangedSinceLastSend(schedule, trigger, fingerprint)) {
+            runHistory.skip(run.id, UNCHANGED_REASON);
+            return;
+          }
+        }
+
+        // Pós-processar depois da comparação (a faixa de título muda a cada envio)
+        for (const result of screenshotResults) {
+          if (result.screenshot) {
+            result.screenshot = await this.postProcess(schedule, result.screenshot);
+          }
+        }
 
         // Enviar imagens para cada grupo
         for (const result of screenshotResults) {
           const groupId = result.id;
-          const task = captureTasks.find(t => t.id === groupId);
+          const progress = { groupId, index: screenshotResults.indexOf(result) + 1, total: screenshotResults.length };
+          throwIfCancelled(signal);
 
           if (result.error) {
             failed++;
             logger.error(`Erro ao capturar screenshot para grupo ${groupId}`, {
               error: result.error,
             });
+            this.recordGroupFailure(run.id, groupId, result.error);
+            onEvent({ type: 'group-failed', ...progress, error: result.error });
             continue;
           }
 
+          let message: string | undefined;
+
           try {
-            const sheetUrlForGroup = task?.url || schedule.sheetUrl;
+            // Dados da aba (a URL da captura pode ser a htmlview do intervalo)
+            const sheetUrlForGroup = this.sheetUrlForGroup(schedule, groupId);
 
             // Criar mensagem com dados da planilha
-            const message = await createMessageWithSheetData(
-              schedule.messageTemplate,
+            message = this.decorateCaption(await createMessageWithSheetData(
+              messageTemplate,
               schedule.name,
-              this.appConfig.settings.timezone,
+              this.timezoneFor(schedule),
               sheetUrlForGroup,
               schedule.cellMappings
-            );
+            ), schedule, options);
+            if (schedule.cellMappings?.length) {
+              onEvent({ type: 'sheet-data-fetched', url: sheetUrlForGroup, variables: schedule.cellMappings.length });
+            }
+
+            if (options.dryRun) {
+              const jid = this.uazapiClient.formatGroupJid(groupId);
+              const outputFile = writeDryRunOutput(run.id, schedule, groupId, jid, result.screenshot!, message);
+              successful++;
+              runHistory.addGroupResult(run.id, { groupId, status: 'dry-run', outputFile, jid });
+              onEvent({ type: 'group-sent', ...progress, outputFile, jid });
+              continue;
+            }
 
             // Enviar para este grupo
-            const sendResult = await this.uazapiClient.sendImage(groupId, result.screenshot!, message);
+            const sendResult = await this.uazapiClient.sendImage(groupId, result.screenshot!, message, sendGuard);
 
             if (sendResult && !(sendResult instanceof Error)) {
               successful++;
               logger.debug(`Enviado com sucesso para grupo ${groupId}`);
+              runHistory.addGroupResult(run.id, {
+                groupId,
+                status: 'sent',
+                messageId: sendResult.messageId || sendResult.id,
+              });
+              onEvent({ type: 'group-sent', ...progress, messageId: sendResult.messageId || sendResult.id });
             } else {
               failed++;
               logger.warn(`Falha ao enviar para grupo ${groupId}`, { error: sendResult });
+              this.recordGroupFailure(run.id, groupId, 'Resposta vazia da UAZAPI');
+              onEvent({ type: 'group-failed', ...progress, error: 'Resposta vazia da UAZAPI' });
             }
 
             // Delay entre envios
@@ -123,9 +570,16 @@ export class Scheduler {
 
           } catch (groupError) {
             failed++;
-            logger.error(`Erro ao processar grupo ${groupId}`, {
-              error: groupError instanceof Error ? groupError.message : groupError,
-            });
+            const errorMsg = groupError instanceof Error ? groupError.message : String(groupError);
+            logger.error(`Erro ao processar grupo ${groupId}`, { error: errorMsg });
+            onEvent({ type: 'group-failed', ...progress, error: errorMsg });
+
+            // Só é possível reenviar se a mensagem já foi montada (recusa pela janela não é reenviada)
+            if (message !== undefined && !(groupError instanceof SendWindowError)) {
+              this.recordSendFailure(run.id, schedule, groupId, result.screenshot!, message, errorMsg);
+            } else {
+              this.recordGroupFailure(run.id, groupId, errorMsg);
+            }
           }
         }
 
@@ -134,35 +588,106 @@ export class Scheduler {
         logger.info('Modo tradicional: screenshot único para todos os grupos');
 
         // Capturar screenshot
+        const captureStart = Date.now();
+        let render: RenderTiming | undefined;
+        const captureUrl = buildRangeUrl(schedule.sheetUrl, schedule.range);
+        onEvent({ type: 'capture-started', target: schedule.name, url: captureUrl });
         const screenshot = await captureScreenshotWithRetry(
-          schedule.sheetUrl,
+          captureUrl,
           schedule.viewport || this.appConfig.browser.defaultViewport,
           schedule.selector,
           schedule.waitAfterLoad || this.appConfig.settings.waitAfterLoad,
           3, // maxRetries
-          schedule.clip // clip config
-        );
+          schedule.clip, // clip config
+          signal,
+          timing => { render = timing; },
+          schedule.presentation
+        ).catch(error => {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          onEvent({ type: 'capture-finished', target: schedule.name, durationMs: Date.now() - captureStart, error: errorMsg });
+          if (!(error instanceof RunCancelledError) && !options.dryRun) {
+            this.alertAdmins({
+              key: `capture-failed:${schedule.id}`,
+              scheduleName: schedule.name,
+              error: `Falha na captura após todas as tentativas: ${errorMsg}`,
+              groups: schedule.groups,
+            });
+          }
+          throw error;
+        });
+        captureMs = Date.now() - captureStart;
+        renderMs = render?.renderMs;
+        onEvent({
+          type: 'capture-finished',
+          target: schedule.name,
+          durationMs: captureMs,
+          renderMs,
+          renderReady: render?.ready,
+        });
+        throwIfCancelled(signal);
+
+        if (compareScreenshot) {
+          fingerprint.screenshot = fingerprintScreenshots([screenshot]);
+          if (this.isUnchangedSinceLastSend(schedule, trigger, fingerprint)) {
+            runHistory.skip(run.id, UNCHANGED_REASON);
+            return;
+          }
+        }
+
+        // Pós-processar depois da comparação (a faixa de título muda a cada envio)
+        const image = await this.postProcess(schedule, screenshot);
 
         // Criar mensagem com dados da planilha
-        const message = await createMessageWithSheetData(
-          schedule.messageTemplate,
+        const message = this.decorateCaption(await createMessageWithSheetData(
+          messageTemplate,
           schedule.name,
-          this.appConfig.settings.timezone,
+          this.timezoneFor(schedule),
           schedule.sheetUrl,
           schedule.cellMappings
-        );
+        ), schedule, options);
+        if (schedule.cellMappings?.length) {
+          onEvent({ type: 'sheet-data-fetched', url: schedule.sheetUrl, variables: schedule.cellMappings.length });
+        }
 
-        // Enviar para grupos
-        const results = await this.uazapiClient.sendImageToGroups(
-          schedule.groups,
-          screenshot,
-          message,
-          this.appConfig.settings.delayBetweenGroups
-        );
+        if (options.dryRun) {
+          schedule.groups.forEach((groupId, i) => {
+            const jid = this.uazapiClient.formatGroupJid(groupId);
+            const outputFile = writeDryRunOutput(run.id, schedule, groupId, jid, image, message);
+            runHistory.addGroupResult(run.id, { groupId, status: 'dry-run', outputFile, jid });
+            onEvent({ type: 'group-sent', groupId, index: i + 1, total: schedule.groups.length, outputFile, jid });
+          });
+          successful = schedule.groups.length;
+        } else {
+          // Enviar para grupos
+          const results = await this.uazapiClient.sendImageToGroups(
+            schedule.groups,
+            image,
+            message,
+            sendGuard,
+            this.appConfig.settings.delayBetweenGroups,
+            signal,
+            onEvent
+          );
 
-        // Contar resultados
-        successful = [...results.values()].filter(r => !(r instanceof Error)).length;
-        failed = schedule.groups.length - successful;
+          // Contar resultados
+          successful = [...results.values()].filter(r => !(r instanceof Error)).length;
+          failed = schedule.groups.length - successful;
+
+          for (const [groupId, response] of results) {
+            if (response instanceof SendWindowError) {
+              this.recordGroupFailure(run.id, groupId, response.message);
+            } else if (response instanceof Error) {
+              this.recordSendFailure(run.id, schedule, groupId, image, message, response.message);
+            } else {
+              runHistory.addGroupResult(run.id, {
+                groupId,
+                status: 'sent',
+                messageId: response.messageId || response.id,
+              });
+            }
+          }
+        }
+        throwIfCancelled(signal);
       }
 
       const duration = Date.now() - startTime;
@@ -172,42 +697,246 @@ export class Scheduler {
         groupsSuccess: successful,
         groupsFailed: failed,
       });
+      const finished = runHistory.finish(run.id, { captureMs, renderMs });
+
+      if (options.dryRun) {
+        logger.info(`Simulação de ${schedule.name} gravada (nada foi enviado)`, { outputDir: getDryRunDir(run.id) });
+      }
+
+      // Guardar referência para o próximo disparo (grupos pendentes seguem pela fila de retry)
+      const delivered = !options.dryRun && (finished?.status === 'success' || finished?.status === 'partial');
+      if (schedule.sendOnlyOnChange && delivered) {
+        schedulerState.markSent(schedule.id, fingerprint, run.id);
+      }
+      if (schedule.alert?.oncePerDay && delivered) {
+        schedulerState.markAlertSent(schedule.id, this.todayFor(schedule));
+      }
 
     } catch (error) {
       const duration = Date.now() - startTime;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+
+      if (error instanceof RunCancelledError) {
+        logger.warn(`Schedule ${schedule.name} cancelado`, { duration: `${duration}ms`, reason: errorMsg });
+        // Grupos já enviados ficam registrados; os demais (inclusive os da fila de retry) são marcados como cancelados
+        for (const groupId of await retryQueue.cancelRun(run.id)) {
+          runHistory.updateGroupResult(run.id, groupId, { status: 'cancelled', error: undefined });
+        }
+        runHistory.markGroupsCancelled(run.id, schedule.groups);
+        runHistory.finish(run.id, { error: errorMsg, captureMs, renderMs, cancelled: true });
+        return;
+      }
+
       logger.error(`Erro no schedule ${schedule.name}`, {
         duration: `${duration}ms`,
-        error: error instanceof Error ? error.message : error,
+        error: errorMsg,
       });
+      runHistory.finish(run.id, { error: errorMsg, captureMs, renderMs });
+    } finally {
+      this.activeRuns.delete(run.id);
+      lock.handle.release();
+      this.emitRunFinished(run.id);
+    }
+  }
+
+  // Registrar fim da execução (evento SSE e webhook) com os totais do histórico
+  private emitRunFinished(runId: string): void {
+    const run = runHistory.get(runId);
+    if (!run) return;
+
+    if (!run.dryRun) {
+      this.notify('run.finished', run);
     }
+    runEvents.emit(runId, {
+      type: 'run-finished',
+      status: run.status,
+      groupsTotal: run.groupsTotal,
+      groupsSuccess: run.groupsSuccess,
+      groupsFailed: run.groupsFailed,
+      durationMs: run.durationMs,
+      error: run.error,
+      skipReason: run.skipReason,
+    });
+  }
+
+  // Verificar se uma execução está ativa neste processo (inclusive aguardando o lock)
+  isRunActive(runId: string): boolean {
+    return this.activeRuns.has(runId);
+  }
+
+  // Cancelar uma execução em andamento neste processo (retorna false se não encontrada)
+  cancelRun(runId: string): boolean {
+    const controller = this.activeRuns.get(runId);
+    if (!controller) return false;
+
+    logger.info('Cancelamento solicitado', { runId });
+    controller.abort(USER_CANCEL_REASON);
+    return true;
+  }
+
+  // Criar e iniciar as tasks de um schedule
+  private startTask(schedule: ScheduleConfig): void {
+    if (schedule.enabled === false && !schedule.resumeAt) {
+      logger.info(`Schedule ${schedule.name} pausado, não será agendado`);
+      return;
+    }
+
+    const scheduledTask = this.scheduleTask(schedule);
+    scheduledTask.tasks.forEach(task => task.start());
+    this.tasks.push(scheduledTask);
+  }
+
+  // Parar e remover as tasks de um schedule
+  private stopTask(scheduleId: string): void {
+    for (const scheduledTask of this.tasks.filter(t => t.config.id === scheduleId)) {
+      scheduledTask.tasks.forEach(task => task.stop());
+      logger.debug(`Task ${scheduledTask.name} parada`);
+    }
+    this.tasks = this.tasks.filter(t => t.config.id !== scheduleId);
   }
 
   // Agendar um schedule
   private scheduleTask(schedule: ScheduleConfig): ScheduledTask {
     logger.info(`Agendando task: ${schedule.name}`, {
-      cron: schedule.cron,
+      cron: getCronExpressions(schedule.cron),
+      timezone: this.timezoneFor(schedule),
       groups: schedule.groups.length,
       sheetUrl: schedule.sheetUrl,
     });
 
-    const task = cron.schedule(
-      schedule.cron,
+    const tasks = getCronExpressions(schedule.cron).map(expression => cron.schedule(
+      expression,
       async () => {
-        await this.executeSchedule(schedule);
+        const now = new Date();
+        schedulerState.markFired(schedule.id, now);
+
+        // Schedules pausados com retomada automática ficam agendados, mas só executam após a data
+        const skipReason = this.getSkipReason(schedule, now);
+        if (skipReason) {
+          runHistory.recordSkipped(schedule, 'cron', skipReason);
+          return;
+        }
+
+        await this.executeSchedule(schedule, 'cron');
       },
       {
         scheduled: false, // Não iniciar automaticamente
-        timezone: this.appConfig.settings.timezone,
+        timezone: this.timezoneFor(schedule),
       }
-    );
+    ));
 
     return {
       name: schedule.name,
-      task,
+      tasks,
       config: schedule,
     };
   }
 
+  // Detectar disparos perdidos enquanto o processo estava parado
+  private async catchUpMissedRuns(): Promise<void> {
+    const now = new Date();
+
+    for (const schedule of this.appConfig.schedules.filter(s => isScheduleEnabled(s, new Date(), this.appConfig.settings.timezone))) {
+      // Estado gravado antes dos IDs estáveis usava o nome como chave
+      const lastFiredAt = schedulerState.get(schedule.id).lastFiredAt
+        || schedulerState.get(schedule.name).lastFiredAt;
+
+      // Primeira execução deste schedule: apenas registrar referência
+      if (!lastFiredAt) {
+        schedulerState.markFired(schedule.id, now);
+        continue;
+      }
+
+      const graceMinutes = schedule.missedRunGraceMinutes ?? this.appConfig.settings.missedRunGraceMinutes;
+      const windowStart = new Date(Math.max(
+        new Date(lastFiredAt).getTime(),
+        now.getTime() - graceMinutes * 60 * 1000
+      ));
+
+      // União dos disparos de todas as expressões do schedule
+      const missed = [...new Set(
+        getCronExpressions(schedule.cron).flatMap(expression =>
+          getOccurrencesBetween(expression, windowStart, now, this.timezoneFor(schedule))
+        ).map(slot => slot.getTime())
+      )]
+        .filter(time => time < now.getTime())
+        .sort((a, b) => a - b)
+        .map(time => new Date(time));
+      schedulerState.markFired(schedule.id, now);
+
+      if (missed.length === 0) continue;
+
+      logger.warn(`Schedule ${schedule.name} perdeu ${missed.length} disparo(s)`, {
+        missed: missed.map(d => d.toISOString()),
+        policy: schedule.missedRunPolicy || 'skip',
+      });
+
+      // Apenas o disparo mais recente é executado; anteriores são registrados como ignorados
+      const latest = missed[missed.length - 1];
+      for (const slot of missed.slice(0, -1)) {
+        runHistory.recordSkipped(schedule, 'catch-up', 'Disparo perdido (substituído por um mais recente)', slot);
+      }
+
+      const skipReason = this.getSkipReason(schedule, latest);
+      if (skipReason) {
+        runHistory.recordSkipped(schedule, 'catch-up', skipReason, latest);
+      } else if (schedule.missedRunPolicy === 'run') {
+        await this.executeSchedule(schedule, 'catch-up', { scheduledFor: latest });
+      } else {
+        runHistory.recordSkipped(schedule, 'catch-up', 'Disparo perdido enquanto o processo estava parado', latest);
+      }
+    }
+  }
+
+  // Montar o resumo do dia a partir do histórico
+  private buildDigest(date: Date = new Date()): string {
+    const timezone = this.appConfig.settings.timezone;
+    return createDigestMessage(getRunsOfDay(date, timezone), timezone, date, this.appConfig.digest?.template);
+  }
+
+  // Enviar o resumo do dia (uma vez por dia, mesmo com index.ts e server.ts ativos)
+  private async sendDigest(): Promise<void> {
+    const digest = this.appConfig.digest;
+    if (!digest) return;
+
+    const timezone = this.appConfig.settings.timezone;
+    const now = new Date();
+    if (!digestState.claim(now, timezone)) {
+      logger.info('Resumo do dia já enviado por outro processo');
+      return;
+    }
+
+    try {
+      await this.uazapiClient.sendText(digest.recipient, this.buildDigest(now));
+    } catch (error) {
+      digestState.release(now, timezone);
+      throw error;
+    }
+    logger.info('Resumo do dia enviado', { recipient: digest.recipient });
+  }
+
+  // Agendar o resumo do dia (config 'digest')
+  private startDigestTask(): void {
+    const digest = this.appConfig.digest;
+    if (!digest || digest.enabled === false) return;
+
+    const [hour, minute] = digest.time.split(':').map(Number);
+    this.digestTask = cron.schedule(`${minute} ${hour} * * *`, () => {
+      this.sendDigest().catch(error => {
+        logger.error('Erro ao enviar resumo do dia', {
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+    }, { timezone: this.appConfig.settings.timezone });
+
+    logger.info(`Resumo do dia agendado para ${digest.time}`, { recipient: digest.recipient });
+  }
+
+  private stopDigestTask(): void {
+    this.digestTask?.stop();
+    this.digestTask = null;
+  }
+
   // Iniciar todos os schedules
   async start(): Promise<void> {
     if (this.isRunning) {
@@ -222,7 +951,7 @@ export class Scheduler {
 
     // Verificar conexão inicial
     try {
-      const connected = await this.uazapiClient.isConnected();
+      const connected = await this.checkConnection();
       if (!connected) {
         logger.warn('WhatsApp não conectado. Os schedules serão iniciados, mas verificarão a conexão antes de cada execução.');
       } else {
@@ -234,13 +963,18 @@ export class Scheduler {
       });
     }
 
-    // Criar e iniciar tasks
+    // Criar e iniciar tasks (pausados sem data de retomada não são agendados)
     for (const schedule of this.appConfig.schedules) {
-      const scheduledTask = this.scheduleTask(schedule);
-      scheduledTask.task.start();
-      this.tasks.push(scheduledTask);
+      this.startTask(schedule);
     }
 
+    // Iniciar fila de retry (processa também envios pendentes de execuções anteriores)
+    if (this.appConfig.settings.retry.enabled) {
+      retryQueue.start(this.appConfig.settings.retry, () => this.processRetryQueue());
+    }
+
+    this.startDigestTask();
+
     this.isRunning = true;
     logger.info('Scheduler iniciado com sucesso', {
       tasksAtivas: this.tasks.length,
@@ -248,19 +982,28 @@ export class Scheduler {
 
     // Listar próximas execuções
     this.logNextExecutions();
+
+    // Recuperar disparos perdidos em background
+    this.catchUpMissedRuns().catch(error => {
+      logger.error('Erro ao recuperar disparos perdidos', {
+        error: error instanceof Error ? error.message : error,
+      });
+    });
   }
 
   // Parar todos os schedules
   async stop(): Promise<void> {
     logger.info('Parando Scheduler');
 
-    for (const { name, task } of this.tasks) {
-      task.stop();
+    for (const { name, tasks } of this.tasks) {
+      tasks.forEach(task => task.stop());
       logger.debug(`Task ${name} parada`);
     }
 
     this.tasks = [];
     this.isRunning = false;
+    retryQueue.stop();
+    this.stopDigestTask();
 
     // Fechar browser
     await closeBrowser();
@@ -268,23 +1011,99 @@ export class Scheduler {
     logger.info('Scheduler parado');
   }
 
-  // Executar um schedule manualmente
-  async runNow(scheduleName?: string): Promise<void> {
-    const schedules = scheduleName
-      ? this.appConfig.schedules.filter(s => s.name === scheduleName)
-      : this.appConfig.schedules;
+  // Aplicar nova configuração sem reiniciar: só as tasks de schedules alterados são recriadas
+  // Execuções em andamento não são interrompidas
+  reload(config: AppConfig): { added: string[]; removed: string[]; changed: string[] } {
+    const previous = this.appConfig;
+    this.appConfig = config;
+
+    // Chave de comparação inclui o timezone efetivo (mudança em settings.timezone afeta o cron)
+    const keyOf = (schedule: ScheduleConfig, settings: AppConfig['settings']): string =>
+      JSON.stringify({ ...schedule, timezone: schedule.timezone || settings.timezone });
+    const oldKeys = new Map(previous.schedules.map(s => [s.id, keyOf(s, previous.settings)]));
+    const newIds = new Set(config.schedules.map(s => s.id));
+
+    const summary = { added: [] as string[], removed: [] as string[], changed: [] as string[] };
+
+    for (const schedule of previous.schedules.filter(s => !newIds.has(s.id))) {
+      summary.removed.push(schedule.name);
+      if (this.isRunning) this.stopTask(schedule.id);
+    }
+
+    for (const schedule of config.schedules) {
+      const oldKey = oldKeys.get(schedule.id);
+      if (oldKey === keyOf(schedule, config.settings)) continue;
+
+      (oldKey === undefined ? summary.added : summary.changed).push(schedule.name);
+      if (this.isRunning) {
+        this.stopTask(schedule.id);
+        this.startTask(schedule);
+      }
+    }
+
+    if (config.uazapi && JSON.stringify(previous.uazapi) !== JSON.stringify(config.uazapi)) {
+      logger.info('Configuração da UAZAPI alterada, recriando cliente');
+      this.uazapiClient = new UazapiClient(config.uazapi);
+    }
+
+    if (this.isRunning && JSON.stringify(previous.settings.retry) !== JSON.stringify(config.settings.retry)) {
+      retryQueue.stop();
+      if (config.settings.retry.enabled) {
+        retryQueue.start(config.settings.retry, () => this.processRetryQueue());
+      }
+    }
+
+    const digestKey = (c: AppConfig): string => JSON.stringify({ digest: c.digest, timezone: c.settings.timezone });
+    if (this.isRunning && digestKey(previous) !== digestKey(config)) {
+      this.stopDigestTask();
+      this.startDigestTask();
+    }
+
+    if (JSON.stringify(previous.browser) !== JSON.stringify(config.browser)) {
+      logger.warn('Configuração do browser alterada; será aplicada após reiniciar o processo');
+    }
+
+    const changedCount = summary.added.length + summary.removed.length + summary.changed.length;
+    if (changedCount === 0) {
+      logger.debug('Configuração recarregada sem alterações nos schedules');
+      return summary;
+    }
+
+    logger.info('Configuração recarregada', summary);
+    if (this.isRunning) {
+      this.logNextExecutions();
+    }
+    return summary;
+  }
+
+  // Executar um schedule manualmente (por ID ou nome)
+  async runNow(
+    scheduleKey?: string,
+    trigger: RunTrigger = 'manual',
+    options: { dryRun?: boolean; runId?: string; override?: boolean } = {}
+  ): Promise<void> {
+    // Um schedule pausado só executa se for pedido explicitamente
+    const schedules = scheduleKey
+      ? this.appConfig.schedules.filter(s => s.id === scheduleKey || s.name === scheduleKey)
+      : this.appConfig.schedules.filter(s => isScheduleEnabled(s, new Date(), this.appConfig.settings.timezone));
 
     if (schedules.length === 0) {
-      logger.error('Nenhum schedule encontrado', { scheduleName });
+      logger.error('Nenhum schedule encontrado', { scheduleKey });
       return;
     }
 
     logger.info('Executando schedules manualmente', {
       count: schedules.length,
+      dryRun: options.dryRun || false,
     });
 
     for (const schedule of schedules) {
-      await this.executeSchedule(schedule);
+      // Um runId pré-definido só faz sentido para um único schedule
+      await this.executeSchedule(schedule, trigger, {
+        dryRun: options.dryRun,
+        override: options.override,
+        runId: schedules.length === 1 ? options.runId : undefined,
+      });
 
       // Delay entre schedules
       if (schedules.indexOf(schedule) < schedules.length - 1) {
@@ -295,20 +1114,45 @@ export class Scheduler {
     }
   }
 
+  // Formatar data no timezone informado (DD/MM/YYYY HH:mm)
+  private formatDateTime(date: Date, timezone: string): string {
+    return new Intl.DateTimeFormat('pt-BR', {
+      timeZone: timezone,
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(date);
+  }
+
   // Listar próximas execuções
   private logNextExecutions(): void {
     logger.info('=== Schedules Configurados ===');
     for (const { name, config } of this.tasks) {
-      logger.info(`  - ${name}: ${config.cron} (${config.groups.length} grupos)`);
+      const paused = isScheduleEnabled(config, new Date(), this.appConfig.settings.timezone) ? '' : ` [pausado até ${config.resumeAt}]`;
+      const nextRunAt = getNextRunAt(config, this.appConfig.settings);
+      const timezone = config.timezone ? ` ${config.timezone}` : '';
+      const next = nextRunAt ? ` → próximo: ${this.formatDateTime(nextRunAt, this.timezoneFor(config))}${timezone}` : '';
+      logger.info(`  - ${name}: ${getCronExpressions(config.cron).join(' | ')} (${config.groups.length} grupos)${paused}${next}`);
     }
     logger.info('==============================');
   }
 
   // Retornar status
-  getStatus(): { isRunning: boolean; tasks: string[] } {
+  getStatus(): {
+    isRunning: boolean;
+    tasks: string[];
+    nextRuns: { id: string; name: string; nextRunAt: string | null }[];
+  } {
     return {
       isRunning: this.isRunning,
       tasks: this.tasks.map(t => t.name),
+      nextRuns: this.tasks.map(({ config }) => ({
+        id: config.id,
+        name: config.name,
+        nextRunAt: getNextRunAt(config, this.appConfig.settings)?.toISOString() || null,
+      })),
     };
   }
 }
@@ -1,8 +1,19 @@
 import { chromium, Browser, Page } from 'playwright';
 import { logger } from './logger.js';
-import type { ViewportConfig, BrowserConfig, ClipConfig } from './types.js';
+import { throwIfCancelled } from './lock.js';
+import { buildPresentationUrl, extractCaptureRange, type A1Range } from './sheets.js';
+import type { RunEventListener } from './events.js';
+import type {
+  ViewportConfig,
+  BrowserConfig,
+  ClipConfig,
+  RenderReadinessConfig,
+  PresentationConfig,
+  PresentationMode,
+} from './types.js';
 
 let browser: Browser | null = null;
+let renderReadiness: RenderReadinessConfig | undefined;
 
 // ========== PAGE POOL ==========
 // Pool de páginas para reutilização entre capturas
@@ -104,6 +115,9 @@ class PagePool {
         logger.error('Erro na limpeza de páginas', { error: err });
       });
     }, 60000); // Verificar a cada minuto
+
+    // A limpeza sozinha não mantém o processo vivo (ex: quem só importa validações deste módulo)
+    this.cleanupInterval.unref();
   }
 
   // Fechar todas as páginas
@@ -171,6 +185,9 @@ function getChromePath(): string | undefined {
 
 // Inicializar browser
 export async function initBrowser(config: BrowserConfig): Promise<Browser> {
+  // Atualizada a cada chamada: vale para as próximas capturas mesmo com o browser aberto
+  renderReadiness = config.renderReadiness;
+
   if (browser) {
     return browser;
   }
@@ -210,6 +227,193 @@ export async function closeBrowser(): Promise<void> {
   }
 }
 
+// ========== RENDER READINESS ==========
+// Google Sheets continua desenhando após o 'load' (fórmulas, IMPORTRANGE, "Carregando...")
+// A planilha é considerada pronta quando a grade existe, não há indicador de carregamento visível
+// e quadros consecutivos da tela são idênticos
+
+// Tempo de renderização medido em uma captura
+export interface RenderTiming {
+  renderMs: number;
+  ready: boolean;  // false = não estabilizou no tempo limite (usada a espera fixa)
+}
+
+type RenderCallback = (timing: RenderTiming) => void;
+
+// Executado no navegador (string porque o projeto não inclui tipos do DOM)
+// Retorna true enquanto a grade não existe ou há indicador de carregamento visível
+const IS_SHEET_BUSY_SCRIPT = `(() => {
+  const grid = document.querySelector('#waffle-grid-container, table.waffle, .grid-container, canvas');
+  if (!grid) return true;
+
+  if (document.querySelector('[role="progressbar"]:not([style*="display: none"]), [aria-busy="true"]')) return true;
+
+  const loading = /^(carregando|loading|calculando|working)/i;
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node.textContent.trim();
+    if (text.length > 0 && text.length < 40 && loading.test(text)) {
+      const element = node.parentElement;
+      if (element && element.offsetParent !== null && getComputedStyle(element).visibility !== 'hidden') return true;
+    }
+  }
+  return false;
+})()`;
+
+// Aguardar a planilha ficar pronta (ou waitAfterLoad fixo, se desativado ou sem estabilizar)
+async function waitForRender(page: Page, waitAfterLoad: number): Promise<RenderTiming> {
+  const start = Date.now();
+  const readiness = renderReadiness;
+
+  if (!readiness?.enabled) {
+    await page.waitForTimeout(waitAfterLoad);
+    return { renderMs: Date.now() - start, ready: false };
+  }
+
+  const deadline = start + readiness.timeout;
+  let previous: Buffer | null = null;
+  let stable = 0;
+
+  while (Date.now() < deadline) {
+    const busy = await page.evaluate<boolean>(IS_SHEET_BUSY_SCRIPT).catch(() => true);
+
+    if (busy) {
+      previous = null;
+      stable = 0;
+    } else {
+      const frame = await page.screenshot({ type: 'jpeg', quality: 40 });
+      stable = previous && frame.equals(previous) ? stable + 1 : 0;
+      previous = frame;
+
+      if (stable >= readiness.stableFrames) {
+        const renderMs = Date.now() - start;
+        logger.info('Planilha pronta para captura', { renderMs });
+        return { renderMs, ready: true };
+      }
+    }
+
+    await page.waitForTimeout(readiness.frameInterval);
+  }
+
+  logger.warn('Planilha não estabilizou no tempo limite, usando espera fixa', {
+    timeout: readiness.timeout,
+    waitAfterLoad,
+  });
+  await page.waitForTimeout(waitAfterLoad);
+  return { renderMs: Date.now() - start, ready: false };
+}
+
+// ========== PRESENTATION ==========
+// Visualização sem as barras do editor (menus, fórmula, abas), escolhida por schedule
+// No editor a grade é desenhada em canvas: linhas de grade e cabeçalhos só são controláveis no htmlview
+
+// CSS injetado para esconder o que sobra de interface em cada visualização
+const CHROME_CSS: Record<PresentationMode, string> = {
+  editor: '',
+  minimal: '#grid-bottom-bar, .grid-bottom-bar, .docs-butterbar-container, .waffle-assistant-entry { display: none !important; }',
+  htmlview: '#top-bar, #sheet-menu, #footer, .docs-butterbar-container { display: none !important; }',
+};
+
+// Linhas de grade padrão (bordas configuradas nas células usam regras mais específicas e continuam visíveis)
+const HIDE_GRIDLINES_CSS = `
+  .waffle td { border-right-color: transparent; border-bottom-color: transparent; }
+  .waffle .freezebar-cell, .waffle .freezebar-horizontal-handle, .waffle .freezebar-vertical-handle {
+    background: transparent !important;
+    border-color: transparent !important;
+  }`;
+
+// Montar CSS da apresentação para a visualização efetivamente carregada
+function presentationStyles(presentation: PresentationConfig | undefined, htmlView: boolean): string {
+  const mode = htmlView ? 'htmlview' : presentation?.mode || 'editor';
+  const gridlines = htmlView && presentation?.gridlines === false ? HIDE_GRIDLINES_CSS : '';
+  return `${CHROME_CSS[mode]}${gridlines}`.trim();
+}
+
+// ========== GRID CLIP ==========
+// Região da grade na visualização HTML (/htmlview), medida pelos cabeçalhos de coluna (letras)
+// e de linha (números): continua correta com colunas redimensionadas
+
+interface GridTarget {
+  range: A1Range | null;  // null = grade inteira
+  headers: boolean;       // Incluir cabeçalhos de linha/coluna (só sem range)
+  headerRows: number;     // Linhas do topo repetidas acima do intervalo
+}
+
+// Executado no navegador; retorna o retângulo da região (coordenadas da viewport) ou null
+const gridRectScript = (target: GridTarget): string => `((target) => {
+  window.scrollTo(0, 0);
+  const table = [...document.querySelectorAll('table.waffle')].find(t => t.offsetParent !== null);
+  if (!table) return null;
+
+  const label = th => th.textContent.trim();
+  const columns = [...table.querySelectorAll('thead th')].filter(th => /^[A-Z]+$/.test(label(th)));
+  const rows = [...table.querySelectorAll('tbody th')].filter(th => /^\\d+$/.test(label(th)));
+  if (columns.length === 0 || rows.length === 0) return null;
+
+  const column = letter => columns.find(th => label(th) === letter);
+  const row = number => rows.find(th => label(th) === String(number));
+  const range = target.range;
+
+  const startColumn = range ? column(range.startColumn) : columns[0];
+  const endColumn = range ? column(range.endColumn) : columns[columns.length - 1];
+  let startRow = range ? row(range.startRow) : rows[0];
+  const endRow = range ? row(range.endRow) : rows[rows.length - 1];
+  if (!startColumn || !endColumn || !startRow || !endRow) return null;
+
+  // Cabeçalho repetido: esconde as linhas entre ele e o início do intervalo
+  if (range && target.headerRows > 0 && range.startRow > 1) {
+    for (const th of rows) {
+      const number = Number(label(th));
+      if (number > target.headerRows && number < range.startRow) th.closest('tr').style.display = 'none';
+    }
+    startRow = row(1) || startRow;
+  }
+
+  const tableRect = table.getBoundingClientRect();
+  const left = target.headers && !range ? tableRect.left : startColumn.getBoundingClientRect().left;
+  const top = target.headers && !range ? tableRect.top : startRow.getBoundingClientRect().top;
+  return {
+    x: left,
+    y: top,
+    width: endColumn.getBoundingClientRect().right - left,
+    height: endRow.getBoundingClientRect().bottom - top,
+  };
+})(${JSON.stringify(target)})`;
+
+// Capturar a região da grade (aumenta a viewport se a região não couber)
+async function captureGrid(page: Page, target: GridTarget, viewport: ViewportConfig): Promise<Buffer> {
+  const range = target.range;
+  const label = range ? `${range.startColumn}${range.startRow}:${range.endColumn}${range.endRow}` : 'grade inteira';
+  const measure = () => page.evaluate<ClipConfig | null>(gridRectScript(target));
+
+  let rect = await measure();
+  if (!rect) {
+    throw new Error(`Região ${label} não encontrada na planilha (verifique a aba e se a planilha está pública)`);
+  }
+
+  const required = {
+    width: Math.max(viewport.width, Math.ceil(rect.x + rect.width)),
+    height: Math.max(viewport.height, Math.ceil(rect.y + rect.height)),
+  };
+  const resized = required.width !== viewport.width || required.height !== viewport.height;
+
+  try {
+    if (resized) {
+      await page.setViewportSize(required);
+      rect = (await measure()) || rect;
+    }
+
+    const screenshot = await page.screenshot({ type: 'png', clip: rect });
+    logger.info('Screenshot da grade capturado', { range: label, clip: rect });
+    return screenshot;
+  } finally {
+    // Página volta ao pool com a viewport original
+    if (resized) {
+      await page.setViewportSize({ width: viewport.width, height: viewport.height });
+    }
+  }
+}
+
 // ========== SCREENSHOT FUNCTIONS ==========
 
 // Capturar screenshot de uma URL do Google Sheets (versão otimizada com pool)
@@ -218,24 +422,43 @@ export async function captureScreenshot(
   viewport: ViewportConfig,
   selector?: string,
   waitAfterLoad: number = 2000,
-  clip?: ClipConfig
+  clip?: ClipConfig,
+  onRender?: RenderCallback,
+  presentation?: PresentationConfig
 ): Promise<Buffer> {
   if (!browser) {
     throw new Error('Browser não inicializado. Chame initBrowser() primeiro.');
   }
 
-  logger.info('Capturando screenshot', { url, viewport, selector, clip });
+  const targetUrl = buildPresentationUrl(url, presentation?.mode);
+  const htmlView = targetUrl.includes('/htmlview');
+  logger.info('Capturando screenshot', { url: targetUrl, viewport, selector, clip, presentation: presentation?.mode });
 
   // Usar pool para reutilizar páginas
-  const page = await pagePool.getPage(url, viewport);
+  const page = await pagePool.getPage(targetUrl, viewport);
 
   try {
-    // Aguardar tempo adicional para renderização completa
-    await page.waitForTimeout(waitAfterLoad);
+    // Esconder barras do editor (a navegação/reload do pool descarta o estilo anterior)
+    const styles = presentationStyles(presentation, htmlView);
+    if (styles) {
+      await page.addStyleTag({ content: styles });
+    }
+
+    // Aguardar renderização completa
+    onRender?.(await waitForRender(page, waitAfterLoad));
 
     let screenshot: Buffer;
+    const range = extractCaptureRange(targetUrl);
+    const grid: GridTarget = {
+      range,
+      headers: presentation?.headers === true,
+      headerRows: presentation?.headerRows || 0,
+    };
 
-    if (selector) {
+    if (range) {
+      // Capturar intervalo A1 (tem prioridade sobre selector e clip)
+      screenshot = await captureGrid(page, grid, viewport);
+    } else if (selector) {
       // Capturar apenas o elemento selecionado
       const element = await page.$(selector);
       if (!element) {
@@ -257,6 +480,9 @@ export async function captureScreenshot(
         },
       });
       logger.info('Screenshot com recorte capturado', { clip });
+    } else if (htmlView) {
+      // Visualização HTML: apenas a grade com os dados
+      screenshot = await captureGrid(page, grid, viewport);
     } else {
       // Capturar página completa visível
       screenshot = await page.screenshot({
@@ -306,8 +532,8 @@ export async function captureScreenshotFresh(
       timeout: 30000,
     });
 
-    // Aguardar tempo adicional para renderização completa
-    await page.waitForTimeout(waitAfterLoad);
+    // Aguardar renderização completa
+    await waitForRender(page, waitAfterLoad);
 
     let screenshot: Buffer;
 
@@ -342,14 +568,20 @@ export async function captureScreenshotWithRetry(
   selector?: string,
   waitAfterLoad: number = 2000,
   maxRetries: number = 3,
-  clip?: ClipConfig
+  clip?: ClipConfig,
+  signal?: AbortSignal,
+  onRender?: RenderCallback,
+  presentation?: PresentationConfig
 ): Promise<Buffer> {
   let lastError: Error | null = null;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    // Não iniciar nova tentativa se a execução foi cancelada
+    throwIfCancelled(signal);
+
     try {
       logger.info(`Tentativa ${attempt}/${maxRetries} de captura`);
-      return await captureScreenshot(url, viewport, selector, waitAfterLoad, clip);
+      return await captureScreenshot(url, viewport, selector, waitAfterLoad, clip, onRender, presentation);
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       logger.warn(`Tentativa ${attempt} falhou`, { error: lastError.message });
@@ -364,6 +596,20 @@ export async function captureScreenshotWithRetry(
   throw lastError || new Error('Falha ao capturar screenshot após todas as tentativas');
 }
 
+// Executar script em uma página em branco (ex: processamento de imagem em canvas)
+export async function evaluateInBlankPage<T>(script: string): Promise<T> {
+  if (!browser) {
+    throw new Error('Browser não inicializado. Chame initBrowser() primeiro.');
+  }
+
+  const page = await browser.newPage();
+  try {
+    return await page.evaluate<T>(script);
+  } finally {
+    await page.close().catch(() => {});
+  }
+}
+
 // ========== PARALLEL CAPTURE ==========
 
 interface ParallelCaptureTask {
@@ -374,6 +620,7 @@ interface ParallelCaptureTask {
 interface ParallelCaptureResult {
   id: string;
   screenshot?: Buffer;
+  render?: RenderTiming;
   error?: string;
 }
 
@@ -383,7 +630,10 @@ export async function captureScreenshotsParallel(
   viewport: ViewportConfig,
   selector?: string,
   waitAfterLoad: number = 2000,
-  clip?: ClipConfig
+  clip?: ClipConfig,
+  signal?: AbortSignal,
+  onEvent?: RunEventListener,
+  presentation?: PresentationConfig
 ): Promise<ParallelCaptureResult[]> {
   if (!browser) {
     throw new Error('Browser não inicializado. Chame initBrowser() primeiro.');
@@ -396,15 +646,39 @@ export async function captureScreenshotsParallel(
 
   // Processar em lotes para respeitar limite de paralelo
   for (let i = 0; i < tasks.length; i += maxParallel) {
+    // Interromper entre lotes se a execução foi cancelada
+    if (signal?.aborted) {
+      logger.warn('Captura paralela interrompida (execução cancelada)', {
+        processed: results.length,
+        total: tasks.length,
+      });
+      break;
+    }
+
     const batch = tasks.slice(i, i + maxParallel);
 
     const batchPromises = batch.map(async (task) => {
+      const taskStart = Date.now();
+      onEvent?.({ type: 'capture-started', target: task.id, url: task.url });
+
+      let render: RenderTiming | undefined;
+
       try {
-        const screenshot = await captureScreenshot(task.url, viewport, selector, waitAfterLoad, clip);
-        return { id: task.id, screenshot };
+        const screenshot = await captureScreenshot(task.url, viewport, selector, waitAfterLoad, clip, timing => {
+          render = timing;
+        }, presentation);
+        onEvent?.({
+          type: 'capture-finished',
+          target: task.id,
+          durationMs: Date.now() - taskStart,
+          renderMs: render?.renderMs,
+          renderReady: render?.ready,
+        });
+        return { id: task.id, screenshot, render };
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
         logger.error(`Erro ao capturar screenshot para ${task.id}`, { error: errorMsg });
+        onEvent?.({ type: 'capture-finished', target: task.id, durationMs: Date.now() - taskStart, error: errorMsg });
         return { id: task.id, error: errorMsg };
       }
     });
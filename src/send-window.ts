@@ -0,0 +1,113 @@
+import { logger } from './logger.js';
+import { getZonedDateParts } from './cron.js';
+import type { SendWindowConfig } from './types.js';
+
+// ========== SEND WINDOW ==========
+// Janela de envio permitida (settings.sendWindow ou por schedule)
+// Verificada antes de cada envio de imagem; fora dela, só com override explícito
+
+// Erro lançado quando um envio é recusado fora da janela
+export class SendWindowError extends Error {
+  constructor(message: string, public readonly nextAllowedAt?: Date) {
+    super(message);
+    this.name = 'SendWindowError';
+  }
+}
+
+// Parâmetros da verificação, informados em cada envio
+export interface SendGuard {
+  window?: SendWindowConfig;
+  timezone: string;
+  override?: boolean;  // Envio autorizado fora da janela (administrador)
+}
+
+const WEEKDAY_NAMES = ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sáb'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const toMinutes = (time: string): number => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+// Descrever a janela (ex: "07:00–20:00, seg a sáb")
+export function describeSendWindow(window: SendWindowConfig): string {
+  const days = [...new Set(window.weekdays || [])].sort((a, b) => a - b);
+  const isRange = days.length > 2 && days.every((d, i) => i === 0 || d === days[i - 1] + 1);
+
+  let dayText = '';
+  if (days.length > 0 && days.length < 7) {
+    dayText = isRange
+      ? `, ${WEEKDAY_NAMES[days[0]]} a ${WEEKDAY_NAMES[days[days.length - 1]]}`
+      : `, ${days.map(d => WEEKDAY_NAMES[d]).join(', ')}`;
+  }
+
+  return `${window.start}–${window.end}${dayText}`;
+}
+
+// Validar janela configurada (retorna mensagem de erro ou null)
+export function validateSendWindow(window: SendWindowConfig): string | null {
+  if (!window || !TIME_PATTERN.test(String(window.start)) || !TIME_PATTERN.test(String(window.end))) {
+    return `'start' e 'end' devem estar no formato HH:mm: ${JSON.stringify(window)}`;
+  }
+  if (window.start === window.end) {
+    return `'start' e 'end' não podem ser iguais: ${window.start}`;
+  }
+  if (window.weekdays !== undefined
+    && (!Array.isArray(window.weekdays) || window.weekdays.some(d => !Number.isInteger(d) || d < 0 || d > 6))) {
+    return `'weekdays' deve ser uma lista de 0 (domingo) a 6 (sábado): ${JSON.stringify(window.weekdays)}`;
+  }
+  return null;
+}
+
+// Motivo da recusa (ou null se o envio é permitido no momento)
+// 'end' menor que 'start' cruza a meia-noite (ex: 22:00–06:00)
+export function checkSendWindow(
+  window: SendWindowConfig | undefined,
+  timezone: string,
+  date: Date = new Date()
+): string | null {
+  if (!window) return null;
+
+  const { hour, minute, weekday } = getZonedDateParts(date, timezone);
+  const now = hour * 60 + minute;
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  const inTime = start < end ? now >= start && now < end : now >= start || now < end;
+  const inDay = !window.weekdays?.length || window.weekdays.includes(weekday);
+
+  return inTime && inDay ? null : `Fora da janela de envio (${describeSendWindow(window)}, ${timezone})`;
+}
+
+// Próximo minuto em que a janela permite envios (null sem janela ou se não abrir em 8 dias)
+export function nextSendWindowStart(
+  window: SendWindowConfig | undefined,
+  timezone: string,
+  from: Date = new Date()
+): Date | null {
+  if (!window) return null;
+
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  for (let i = 0; i < 8 * 24 * 60; i++) {
+    date.setTime(date.getTime() + 60 * 1000);
+    if (!checkSendWindow(window, timezone, date)) return date;
+  }
+  return null;
+}
+
+// Garantir que o envio é permitido (lança SendWindowError)
+export function assertSendAllowed(guard: SendGuard, date: Date = new Date()): void {
+  const reason = checkSendWindow(guard.window, guard.timezone, date);
+  if (!reason) return;
+
+  if (guard.override) {
+    logger.warn('Envio fora da janela autorizado (override)', { reason });
+    return;
+  }
+
+  throw new SendWindowError(
+    `${reason}. Envio recusado; use 'override' para enviar mesmo assim`,
+    nextSendWindowStart(guard.window, guard.timezone, date) || undefined
+  );
+}
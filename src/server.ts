@@ -5,15 +5,39 @@ import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
 import { v4 as uuidv4 } from 'uuid';
-import YAML from 'yaml';
 import { logger } from './logger.js';
-import { loadConfig } from './config.js';
-import { Scheduler } from './scheduler.js';
+import {
+  loadConfig,
+  saveConfig,
+  validateSettings,
+  isScheduleEnabled,
+  parseResumeAt,
+  isValidTimezone,
+  getScheduleTimezone,
+  getSendWindow,
+  getImageOutput,
+} from './config.js';
+import { assertSendAllowed, validateSendWindow, SendWindowError, type SendGuard } from './send-window.js';
+import { Scheduler, getScheduleSkipReason, USER_CANCEL_REASON } from './scheduler.js';
 import { initBrowser, closeBrowser, captureScreenshotWithRetry } from './screenshot.js';
+import type { RenderTiming } from './screenshot.js';
 import { UazapiClient, createInstance, deleteInstanceByAdmin } from './uazapi.js';
 import { createMessageWithSheetData } from './templates.js';
-import { fetchSheetData } from './sheets.js';
-import type { ScheduleConfig, AppConfig, SheetTabConfig, CellMapping } from './types.js';
+import { fetchSheetData, buildRangeUrl, validateA1Range, validatePresentation } from './sheets.js';
+import { prepareImage, validateImageOutput, validateImageProcessing } from './image-processing.js';
+import { toImageDataUri } from './image-format.js';
+import { runHistory, type RunFilters } from './history.js';
+import { runEvents, type RunEvent } from './events.js';
+import { webhooks } from './webhooks.js';
+import { adminAlerts } from './admin-alerts.js';
+import { connectionMonitor } from './connection.js';
+import { createDigestMessage, getRunsOfDay } from './digest.js';
+import { scheduleLocks } from './lock.js';
+import { configWatcher } from './config-watcher.js';
+import { getCalendar } from './calendar.js';
+import { evaluateRule } from './rules.js';
+import { parseCron, getCronExpressions, getNextOccurrences, buildCronExpressions, toStructuredCron, describeCronExpressions } from './cron.js';
+import type { ScheduleConfig, AppConfig, SheetTabConfig, CellMapping, RunStatus, WebhookTarget } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -33,10 +57,10 @@ let currentConfig: AppConfig | null = null;
 let uazapiClient: UazapiClient | null = null;
 const configPath = process.env.CONFIG_PATH || './config/config.yaml';
 
-// Interface para schedule com ID
+// Interface para schedule com status efetivo
 interface ScheduleWithId extends ScheduleConfig {
-  id: string;
   enabled: boolean;
+  cronDescription: string;
 }
 
 // Carregar configuração
@@ -57,56 +81,101 @@ function getUazapiClient(): UazapiClient {
   return uazapiClient;
 }
 
-// Salvar configuração
-function saveConfig(config: AppConfig): void {
-  const yamlContent = YAML.stringify({
-    uazapi: config.uazapi,
-    settings: config.settings,
-    browser: config.browser,
-    schedules: config.schedules,
+// Avisar queda da conexão vista pela verificação de status (só na transição, como no envio)
+function reportConnection(connected: boolean, error?: string): void {
+  if (!connectionMonitor.record(connected)) return;
+
+  const config = reloadConfig();
+  webhooks.dispatch('whatsapp.disconnected', {
+    instanceId: config.uazapi?.instanceId,
+    checkedAt: new Date().toISOString(),
+  }, config.settings.webhooks);
+
+  // Sem WhatsApp, o aviso vai direto para o arquivo de fallback
+  adminAlerts.notify({
+    key: 'whatsapp-disconnected',
+    scheduleName: 'Verificação de status',
+    error: error || 'WhatsApp não conectado',
+    groups: [...new Set(config.schedules.filter(s => isScheduleEnabled(s, new Date(), config.settings.timezone)).flatMap(s => s.groups))],
+  }, config.alerts, config.settings.timezone, (recipient, text) => getUazapiClient().sendText(recipient, text), true).catch(err => {
+    logger.error('Erro ao avisar administradores', { error: err instanceof Error ? err.message : err });
   });
+}
 
-  const absolutePath = path.resolve(configPath);
-  fs.writeFileSync(absolutePath, yamlContent, 'utf-8');
-  logger.info('Configuração salva', { path: absolutePath });
+// Localizar schedule pelo ID estável (retorna -1 se não existir)
+function findScheduleIndex(config: AppConfig, id: string): number {
+  return config.schedules.findIndex(s => s.id === id);
 }
 
-// Converter cron para formato legível
-function parseCronToReadable(cron: string): { minutes: string; hours: string; days: number[] } {
-  const parts = cron.split(' ');
-  const dayMap: Record<string, number[]> = {
-    '*': [0, 1, 2, 3, 4, 5, 6],
-    '1-5': [1, 2, 3, 4, 5],
-    '0,6': [0, 6],
+// Converter cron do schedule para formato editável + descrição em português
+function parseCronToReadable(cron: string | string[]) {
+  const expressions = getCronExpressions(cron);
+  const fields = parseCron(expressions[0]);
+  const [minutes, hours] = expressions[0].split(/\s+/);
+  const structured = toStructuredCron(expressions);
+
+  return {
+    // Campos legados (primeira expressão) usados pelo formulário da interface
+    minutes,
+    hours,
+    days: [...fields.daysOfWeek].sort((a, b) => a - b),
+    expressions,
+    representable: structured !== null,
+    times: structured?.times || [],
+    weekdays: structured?.weekdays || [],
+    monthDays: structured?.monthDays || [],
+    description: describeCronExpressions(expressions),
   };
+}
 
-  let days = dayMap[parts[4]] || [0, 1, 2, 3, 4, 5, 6];
+// Resolver cron a partir do corpo da requisição
+// Prioridade: 'cron' (expressão ou lista) > 'times' + 'weekdays'/'monthDays' > 'hours'/'minutes'/'days' (legado)
+// Retorna undefined se nenhum campo de horário foi enviado
+function resolveCronFromBody(body: Record<string, unknown>): string | string[] | undefined {
+  let expressions: string[];
 
-  // Parse range like 1-5
-  if (parts[4].includes('-') && !dayMap[parts[4]]) {
-    const [start, end] = parts[4].split('-').map(Number);
-    days = [];
-    for (let i = start; i <= end; i++) {
-      days.push(i);
+  if (body.cron !== undefined) {
+    if (typeof body.cron !== 'string' && !(Array.isArray(body.cron) && body.cron.every(c => typeof c === 'string'))) {
+      throw new Error("'cron' deve ser uma expressão ou lista de expressões");
+    }
+    expressions = getCronExpressions(body.cron as string | string[]);
+  } else if (body.times !== undefined) {
+    if (!Array.isArray(body.times)) {
+      throw new Error("'times' deve ser uma lista de horários HH:mm");
     }
+    expressions = buildCronExpressions({
+      times: body.times.map(String),
+      weekdays: ((body.weekdays ?? body.days) as number[] | undefined)?.map(Number),
+      monthDays: (body.monthDays as number[] | undefined)?.map(Number),
+    });
+  } else if (body.hours !== undefined || body.minutes !== undefined || body.days !== undefined) {
+    const days = ((body.days as number[] | undefined) || [1, 2, 3, 4, 5]).map(Number);
+    const dayPart = new Set(days).size === 7 ? '*' : [...new Set(days)].sort((a, b) => a - b).join(',');
+    expressions = [`${body.minutes ?? '0'} ${body.hours ?? '9'} * * ${dayPart}`];
+  } else {
+    return undefined;
   }
 
-  // Parse list like 1,3,5
-  if (parts[4].includes(',') && !dayMap[parts[4]]) {
-    days = parts[4].split(',').map(Number);
+  if (expressions.length === 0) {
+    throw new Error('Informe pelo menos uma expressão cron');
+  }
+  for (const expression of expressions) {
+    parseCron(expression); // Lança erro descritivo se inválida
   }
 
-  return {
-    minutes: parts[0],
-    hours: parts[1],
-    days,
-  };
+  return expressions.length === 1 ? expressions[0] : expressions;
 }
 
-// Converter formato legível para cron
-function formatToCron(hours: string, minutes: string, days: number[]): string {
-  const dayPart = days.length === 7 ? '*' : days.sort((a, b) => a - b).join(',');
-  return `${minutes} ${hours} * * ${dayPart}`;
+// Validar intervalos A1 do schedule e das abas (retorna mensagem de erro ou null)
+function findRangeError(range: unknown, sheetTabs: unknown): string | null {
+  const tabRanges = Array.isArray(sheetTabs) ? sheetTabs.map(tab => tab?.range) : [];
+  for (const value of [range, ...tabRanges]) {
+    if (value) {
+      const error = validateA1Range(String(value));
+      if (error) return error;
+    }
+  }
+  return null;
 }
 
 // ========== API ROUTES ==========
@@ -115,10 +184,10 @@ function formatToCron(hours: string, minutes: string, days: number[]): string {
 app.get('/api/schedules', (req, res) => {
   try {
     const config = reloadConfig();
-    const schedules: ScheduleWithId[] = config.schedules.map((s, index) => ({
+    const schedules: ScheduleWithId[] = config.schedules.map(s => ({
       ...s,
-      id: `schedule-${index}`,
-      enabled: true,
+      enabled: isScheduleEnabled(s, new Date(), config.settings.timezone),
+      cronDescription: describeCronExpressions(getCronExpressions(s.cron)),
     }));
     res.json({ success: true, data: schedules });
   } catch (error) {
@@ -131,8 +200,7 @@ app.get('/api/schedules', (req, res) => {
 app.get('/api/schedules/:id', (req, res) => {
   try {
     const config = reloadConfig();
-    const index = parseInt(req.params.id.replace('schedule-', ''));
-    const schedule = config.schedules[index];
+    const schedule = config.schedules[findScheduleIndex(config, req.params.id)];
 
     if (!schedule) {
       return res.status(404).json({ success: false, error: 'Schedule não encontrado' });
@@ -144,8 +212,7 @@ app.get('/api/schedules/:id', (req, res) => {
       success: true,
       data: {
         ...schedule,
-        id: req.params.id,
-        enabled: true,
+        enabled: isScheduleEnabled(schedule, new Date(), config.settings.timezone),
         cronParsed: parsed,
       },
     });
@@ -155,20 +222,106 @@ app.get('/api/schedules/:id', (req, res) => {
   }
 });
 
+// GET /api/schedules/:id/next - Próximos disparos (?count=10, máx. 100)
+app.get('/api/schedules/:id/next', (req, res) => {
+  try {
+    const config = reloadConfig();
+    const schedule = config.schedules[findScheduleIndex(config, req.params.id)];
+
+    if (!schedule) {
+      return res.status(404).json({ success: false, error: 'Schedule não encontrado' });
+    }
+
+    const count = req.query.count !== undefined ? Number(req.query.count) : 10;
+    if (!Number.isInteger(count) || count < 1 || count > 100) {
+      return res.status(400).json({ success: false, error: 'count deve ser um inteiro entre 1 e 100' });
+    }
+
+    const timezone = getScheduleTimezone(schedule, config.settings);
+    const formatter = new Intl.DateTimeFormat('pt-BR', {
+      timeZone: timezone,
+      weekday: 'short',
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+    // Disparos que cairiam em pausa, feriado ou bloqueio vêm com o motivo em skipReason
+    const occurrences = getNextOccurrences(getCronExpressions(schedule.cron), new Date(), count, timezone)
+      .map(date => ({
+        at: date.toISOString(),
+        local: formatter.format(date),
+        skipReason: getScheduleSkipReason(schedule, date, config.settings),
+      }));
+
+    res.json({
+      success: true,
+      data: {
+        timezone,
+        description: describeCronExpressions(getCronExpressions(schedule.cron)),
+        occurrences,
+      },
+    });
+  } catch (error) {
+    logger.error('Erro ao calcular próximos disparos', { error });
+    res.status(500).json({ success: false, error: 'Erro ao calcular próximos disparos' });
+  }
+});
+
 // POST /api/schedules - Criar novo schedule
 app.post('/api/schedules', (req, res) => {
   try {
     const config = reloadConfig();
-    const { name, sheetUrl, groups, hours, minutes, days, messageTemplate, sheetTabs, cellMappings, clip, selector } = req.body;
+    const {
+      name, sheetUrl, groups, messageTemplate, sheetTabs, cellMappings, clip, range, presentation, image, output, selector, enabled,
+      timezone, sendWindow,
+    } = req.body;
 
     // Validação básica
     if (!name || !sheetUrl || !groups || groups.length === 0) {
       return res.status(400).json({ success: false, error: 'Campos obrigatórios faltando' });
     }
 
-    const cron = formatToCron(hours || '9', minutes || '0', days || [1, 2, 3, 4, 5]);
+    if (timezone && !isValidTimezone(timezone)) {
+      return res.status(400).json({ success: false, error: `Timezone inválido: ${timezone}` });
+    }
+
+    const sendWindowError = sendWindow ? validateSendWindow(sendWindow) : null;
+    if (sendWindowError) {
+      return res.status(400).json({ success: false, error: `sendWindow inválido: ${sendWindowError}` });
+    }
+
+    const rangeError = findRangeError(range, sheetTabs);
+    if (rangeError) {
+      return res.status(400).json({ success: false, error: `range inválido: ${rangeError}` });
+    }
+
+    const presentationError = presentation ? validatePresentation(presentation) : null;
+    if (presentationError) {
+      return res.status(400).json({ success: false, error: `presentation inválido: ${presentationError}` });
+    }
+
+    const imageError = image ? validateImageProcessing(image) : null;
+    if (imageError) {
+      return res.status(400).json({ success: false, error: `image inválido: ${imageError}` });
+    }
+
+    const outputError = output ? validateImageOutput(output) : null;
+    if (outputError) {
+      return res.status(400).json({ success: false, error: `output inválido: ${outputError}` });
+    }
+
+    let cron: string | string[];
+    try {
+      cron = resolveCronFromBody(req.body) || '0 9 * * 1-5';
+    } catch (error) {
+      return res.status(400).json({ success: false, error: (error as Error).message });
+    }
 
     const newSchedule: ScheduleConfig = {
+      id: uuidv4(),
       name,
       sheetUrl,
       groups: Array.isArray(groups) ? groups : [groups],
@@ -179,23 +332,30 @@ app.post('/api/schedules', (req, res) => {
       sheetTabs: sheetTabs || [],
       cellMappings: cellMappings || [],
       clip: clip || undefined,
+      range: range || undefined,
+      presentation: presentation || undefined,
+      image: image || undefined,
+      output: output || undefined,
       selector: selector || undefined,
+      enabled: enabled !== false,
+      timezone: timezone || undefined,
+      sendWindow: sendWindow || undefined,
     };
 
     config.schedules.push(newSchedule);
-    saveConfig(config);
+    saveConfig(config, configPath);
 
     // Reiniciar scheduler se estiver rodando
     if (scheduler) {
-      restartScheduler();
+      reloadScheduler();
     }
 
     res.json({
       success: true,
       data: {
         ...newSchedule,
-        id: `schedule-${config.schedules.length - 1}`,
-        enabled: true,
+        enabled: isScheduleEnabled(newSchedule, new Date(), config.settings.timezone),
+        cronParsed: parseCronToReadable(newSchedule.cron),
       },
     });
   } catch (error) {
@@ -208,42 +368,92 @@ app.post('/api/schedules', (req, res) => {
 app.put('/api/schedules/:id', (req, res) => {
   try {
     const config = reloadConfig();
-    const index = parseInt(req.params.id.replace('schedule-', ''));
+    const index = findScheduleIndex(config, req.params.id);
 
-    if (index < 0 || index >= config.schedules.length) {
+    if (index < 0) {
       return res.status(404).json({ success: false, error: 'Schedule não encontrado' });
     }
 
-    const { name, sheetUrl, groups, hours, minutes, days, messageTemplate, sheetTabs, cellMappings, clip, selector } = req.body;
+    const {
+      name, sheetUrl, groups, messageTemplate, sheetTabs, cellMappings, clip, range, presentation, image, output, selector, timezone,
+      sendWindow,
+    } = req.body;
+
+    if (timezone && !isValidTimezone(timezone)) {
+      return res.status(400).json({ success: false, error: `Timezone inválido: ${timezone}` });
+    }
 
-    const cron = formatToCron(hours || '9', minutes || '0', days || [1, 2, 3, 4, 5]);
+    const sendWindowError = sendWindow ? validateSendWindow(sendWindow) : null;
+    if (sendWindowError) {
+      return res.status(400).json({ success: false, error: `sendWindow inválido: ${sendWindowError}` });
+    }
+
+    const rangeError = findRangeError(range, sheetTabs);
+    if (rangeError) {
+      return res.status(400).json({ success: false, error: `range inválido: ${rangeError}` });
+    }
+
+    const presentationError = presentation ? validatePresentation(presentation) : null;
+    if (presentationError) {
+      return res.status(400).json({ success: false, error: `presentation inválido: ${presentationError}` });
+    }
+
+    const imageError = image ? validateImageProcessing(image) : null;
+    if (imageError) {
+      return res.status(400).json({ success: false, error: `image inválido: ${imageError}` });
+    }
+
+    const outputError = output ? validateImageOutput(output) : null;
+    if (outputError) {
+      return res.status(400).json({ success: false, error: `output inválido: ${outputError}` });
+    }
+
+    // Sem campos de horário no corpo, o cron atual é mantido intacto
+    let cron: string | string[] | undefined;
+    try {
+      cron = resolveCronFromBody(req.body);
+    } catch (error) {
+      return res.status(400).json({ success: false, error: (error as Error).message });
+    }
 
     config.schedules[index] = {
       ...config.schedules[index],
       name: name || config.schedules[index].name,
       sheetUrl: sheetUrl || config.schedules[index].sheetUrl,
       groups: groups || config.schedules[index].groups,
-      cron,
+      cron: cron ?? config.schedules[index].cron,
       messageTemplate: messageTemplate || config.schedules[index].messageTemplate,
       sheetTabs: sheetTabs !== undefined ? sheetTabs : config.schedules[index].sheetTabs,
       cellMappings: cellMappings !== undefined ? cellMappings : config.schedules[index].cellMappings,
       clip: clip !== undefined ? clip : config.schedules[index].clip,
+      // String vazia ou null remove o intervalo (volta a usar clip/selector)
+      range: range !== undefined ? range || undefined : config.schedules[index].range,
+      // null volta à captura do editor
+      presentation: presentation !== undefined ? presentation || undefined : config.schedules[index].presentation,
+      // null remove o pós-processamento
+      image: image !== undefined ? image || undefined : config.schedules[index].image,
+      // null volta ao formato de settings.output
+      output: output !== undefined ? output || undefined : config.schedules[index].output,
       selector: selector !== undefined ? selector : config.schedules[index].selector,
+      // String vazia ou null remove o timezone próprio (volta a usar settings.timezone)
+      timezone: timezone !== undefined ? timezone || undefined : config.schedules[index].timezone,
+      // null remove a janela própria (volta a usar settings.sendWindow)
+      sendWindow: sendWindow !== undefined ? sendWindow || undefined : config.schedules[index].sendWindow,
     };
 
-    saveConfig(config);
+    saveConfig(config, configPath);
 
     // Reiniciar scheduler se estiver rodando
     if (scheduler) {
-      restartScheduler();
+      reloadScheduler();
     }
 
     res.json({
       success: true,
       data: {
         ...config.schedules[index],
-        id: req.params.id,
-        enabled: true,
+        enabled: isScheduleEnabled(config.schedules[index], new Date(), config.settings.timezone),
+        cronParsed: parseCronToReadable(config.schedules[index].cron),
       },
     });
   } catch (error) {
@@ -256,18 +466,18 @@ app.put('/api/schedules/:id', (req, res) => {
 app.delete('/api/schedules/:id', (req, res) => {
   try {
     const config = reloadConfig();
-    const index = parseInt(req.params.id.replace('schedule-', ''));
+    const index = findScheduleIndex(config, req.params.id);
 
-    if (index < 0 || index >= config.schedules.length) {
+    if (index < 0) {
       return res.status(404).json({ success: false, error: 'Schedule não encontrado' });
     }
 
     config.schedules.splice(index, 1);
-    saveConfig(config);
+    saveConfig(config, configPath);
 
     // Reiniciar scheduler se estiver rodando
     if (scheduler) {
-      restartScheduler();
+      reloadScheduler();
     }
 
     res.json({ success: true, message: 'Schedule removido' });
@@ -277,12 +487,88 @@ app.delete('/api/schedules/:id', (req, res) => {
   }
 });
 
-// POST /api/schedules/:id/run - Executar schedule manualmente
+// POST /api/schedules/:id/pause - Pausar schedule (body opcional: { resumeAt })
+app.post('/api/schedules/:id/pause', (req, res) => {
+  try {
+    const config = reloadConfig();
+    const schedule = config.schedules[findScheduleIndex(config, req.params.id)];
+
+    if (!schedule) {
+      return res.status(404).json({ success: false, error: 'Schedule não encontrado' });
+    }
+
+    const { resumeAt } = req.body || {};
+    if (resumeAt !== undefined && resumeAt !== null) {
+      const resumeDate = typeof resumeAt === 'string'
+        ? parseResumeAt(resumeAt, getScheduleTimezone(schedule, config.settings))
+        : null;
+      if (!resumeDate) {
+        return res.status(400).json({ success: false, error: `resumeAt inválido: ${resumeAt}` });
+      }
+      if (resumeDate <= new Date()) {
+        return res.status(400).json({ success: false, error: 'resumeAt deve estar no futuro' });
+      }
+    }
+
+    schedule.enabled = false;
+    if (resumeAt) {
+      schedule.resumeAt = resumeAt;
+    } else {
+      delete schedule.resumeAt;
+    }
+    saveConfig(config, configPath);
+
+    if (scheduler) {
+      reloadScheduler();
+    }
+
+    logger.info(`Schedule ${schedule.name} pausado`, { resumeAt: schedule.resumeAt });
+
+    res.json({
+      success: true,
+      data: { ...schedule, enabled: false },
+    });
+  } catch (error) {
+    logger.error('Erro ao pausar schedule', { error });
+    res.status(500).json({ success: false, error: 'Erro ao pausar schedule' });
+  }
+});
+
+// POST /api/schedules/:id/resume - Retomar schedule pausado
+app.post('/api/schedules/:id/resume', (req, res) => {
+  try {
+    const config = reloadConfig();
+    const schedule = config.schedules[findScheduleIndex(config, req.params.id)];
+
+    if (!schedule) {
+      return res.status(404).json({ success: false, error: 'Schedule não encontrado' });
+    }
+
+    schedule.enabled = true;
+    delete schedule.resumeAt;
+    saveConfig(config, configPath);
+
+    if (scheduler) {
+      reloadScheduler();
+    }
+
+    logger.info(`Schedule ${schedule.name} retomado`);
+
+    res.json({
+      success: true,
+      data: { ...schedule, enabled: true },
+    });
+  } catch (error) {
+    logger.error('Erro ao retomar schedule', { error });
+    res.status(500).json({ success: false, error: 'Erro ao retomar schedule' });
+  }
+});
+
+// POST /api/schedules/:id/run - Executar schedule manualmente (body opcional: { dryRun: true })
 app.post('/api/schedules/:id/run', async (req, res) => {
   try {
     const config = reloadConfig();
-    const index = parseInt(req.params.id.replace('schedule-', ''));
-    const schedule = config.schedules[index];
+    const schedule = config.schedules[findScheduleIndex(config, req.params.id)];
 
     if (!schedule) {
       return res.status(404).json({ success: false, error: 'Schedule não encontrado' });
@@ -292,12 +578,20 @@ app.post('/api/schedules/:id/run', async (req, res) => {
       scheduler = new Scheduler(config);
     }
 
-    // Executar em background
-    scheduler.runNow(schedule.name).catch(err => {
+    const dryRun = req.body?.dryRun === true;
+    const override = req.body?.override === true;
+    const runId = uuidv4();
+
+    // Executar em background (o runId permite acompanhar e cancelar via /api/runs/:id)
+    scheduler.runNow(schedule.id, 'manual', { dryRun, runId, override }).catch(err => {
       logger.error('Erro na execução manual', { error: err });
     });
 
-    res.json({ success: true, message: 'Execução iniciada' });
+    res.json({
+      success: true,
+      message: dryRun ? 'Simulação iniciada (nada será enviado)' : 'Execução iniciada',
+      data: { runId },
+    });
   } catch (error) {
     logger.error('Erro ao executar schedule', { error });
     res.status(500).json({ success: false, error: 'Erro ao executar schedule' });
@@ -315,7 +609,14 @@ app.get('/api/settings', (req, res) => {
           baseUrl: config.uazapi.baseUrl,
           // Não expor token por segurança
         } : null,
-        settings: config.settings,
+        settings: {
+          ...config.settings,
+          webhooks: {
+            ...config.settings.webhooks,
+            // Não expor chaves de assinatura
+            targets: config.settings.webhooks.targets.map(t => ({ ...t, secret: SECRET_MASK })),
+          },
+        },
         browser: config.browser,
       },
     });
@@ -325,6 +626,8 @@ app.get('/api/settings', (req, res) => {
   }
 });
 
+const SECRET_MASK = '********';
+
 // PUT /api/settings - Atualizar configurações
 app.put('/api/settings', (req, res) => {
   try {
@@ -335,13 +638,31 @@ app.put('/api/settings', (req, res) => {
       config.uazapi = { ...config.uazapi, ...uazapi };
     }
     if (settings) {
-      config.settings = { ...config.settings, ...settings };
+      // Destinos de webhook enviados sem a chave (ou mascarados) mantêm a chave atual
+      if (Array.isArray(settings.webhooks?.targets)) {
+        settings.webhooks.targets = settings.webhooks.targets.map((target: WebhookTarget) => {
+          if (target.secret && target.secret !== SECRET_MASK) return target;
+          const current = config.settings.webhooks.targets.find(t => t.url === target.url);
+          return { ...target, secret: current?.secret || '' };
+        });
+      }
+      config.settings = {
+        ...config.settings,
+        ...settings,
+        webhooks: { ...config.settings.webhooks, ...settings.webhooks },
+      };
+
+      // Recusar antes de gravar: um valor inválido no arquivo impediria a próxima carga
+      const settingsErrors = validateSettings(config.settings);
+      if (settingsErrors.length > 0) {
+        return res.status(400).json({ success: false, error: settingsErrors.join('; ') });
+      }
     }
     if (browser) {
       config.browser = { ...config.browser, ...browser };
     }
 
-    saveConfig(config);
+    saveConfig(config, configPath);
     res.json({ success: true, message: 'Configurações atualizadas' });
   } catch (error) {
     logger.error('Erro ao atualizar settings', { error });
@@ -349,6 +670,30 @@ app.put('/api/settings', (req, res) => {
   }
 });
 
+// GET /api/calendar - Feriados nacionais e bloqueios de um ano (?year=2026)
+app.get('/api/calendar', (req, res) => {
+  try {
+    const config = reloadConfig();
+    const year = req.query.year ? parseInt(String(req.query.year)) : new Date().getFullYear();
+
+    if (isNaN(year) || year < 1900 || year > 2200) {
+      return res.status(400).json({ success: false, error: `Ano inválido: ${req.query.year}` });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        year,
+        days: getCalendar(year, config.settings),
+        schedulesSkippingHolidays: config.schedules.filter(s => s.skipHolidays).map(s => s.name),
+      },
+    });
+  } catch (error) {
+    logger.error('Erro ao obter calendário', { error });
+    res.status(500).json({ success: false, error: 'Erro ao obter calendário' });
+  }
+});
+
 // ========== WHATSAPP API ROUTES ==========
 
 // GET /api/whatsapp/status - Status da conexão WhatsApp
@@ -358,6 +703,7 @@ app.get('/api/whatsapp/status', async (req, res) => {
     const status = await client.checkConnection();
 
     const connected = status.status?.connected === true || status.instance?.status === 'connected';
+    reportConnection(connected);
 
     res.json({
       success: true,
@@ -372,6 +718,7 @@ app.get('/api/whatsapp/status', async (req, res) => {
     });
   } catch (error) {
     logger.error('Erro ao verificar status WhatsApp', { error });
+    reportConnection(false, error instanceof Error ? error.message : undefined);
     res.json({
       success: true,
       data: {
@@ -711,8 +1058,7 @@ app.get('/api/groups/cache', (req, res) => {
 app.post('/api/schedules/:id/preview', async (req, res) => {
   try {
     const config = reloadConfig();
-    const index = parseInt(req.params.id.replace('schedule-', ''));
-    const schedule = config.schedules[index];
+    const schedule = config.schedules[findScheduleIndex(config, req.params.id)];
 
     if (!schedule) {
       return res.status(404).json({ success: false, error: 'Schedule não encontrado' });
@@ -724,12 +1070,24 @@ app.post('/api/schedules/:id/preview', async (req, res) => {
     await initBrowser(config.browser);
 
     // Capturar screenshot
+    let render: RenderTiming | undefined;
     const screenshot = await captureScreenshotWithRetry(
-      schedule.sheetUrl,
+      buildRangeUrl(schedule.sheetUrl, schedule.range),
       schedule.viewport || config.browser.defaultViewport,
       schedule.selector,
-      schedule.waitAfterLoad || config.settings.waitAfterLoad
-    );
+      schedule.waitAfterLoad || config.settings.waitAfterLoad,
+      3,
+      undefined,
+      undefined,
+      timing => { render = timing; },
+      schedule.presentation
+    ).then(captured => prepareImage(
+      captured,
+      schedule.image,
+      getImageOutput(schedule, config.settings),
+      schedule.name,
+      getScheduleTimezone(schedule, config.settings)
+    ));
 
     // Buscar dados da planilha (se houver mapeamentos)
     let sheetData: Record<string, string> = {};
@@ -737,24 +1095,26 @@ app.post('/api/schedules/:id/preview', async (req, res) => {
       sheetData = await fetchSheetData(schedule.sheetUrl, schedule.cellMappings);
     }
 
-    // Criar mensagem
+    // Criar mensagem (schedules de alerta usam o template do alerta)
     const message = await createMessageWithSheetData(
-      schedule.messageTemplate,
+      schedule.alert?.messageTemplate || schedule.messageTemplate,
       schedule.name,
-      config.settings.timezone,
+      getScheduleTimezone(schedule, config.settings),
       schedule.sheetUrl,
       schedule.cellMappings
     );
 
     // Converter screenshot para base64
-    const screenshotBase64 = `data:image/png;base64,${screenshot.toString('base64')}`;
+    const screenshotBase64 = toImageDataUri(screenshot);
 
     res.json({
       success: true,
       data: {
         screenshot: screenshotBase64,
+        render,
         message,
         sheetData,
+        alert: schedule.alert ? evaluateRule(schedule.alert, sheetData) : undefined,
         schedule: {
           name: schedule.name,
           sheetUrl: schedule.sheetUrl,
@@ -774,7 +1134,14 @@ app.post('/api/schedules/:id/preview', async (req, res) => {
 // POST /api/test/preview - Preview completo (screenshot + mensagem + dados)
 app.post('/api/test/preview', async (req, res) => {
   try {
-    const { sheetUrl, messageTemplate, cellMappings, scheduleName, viewport, selector, waitAfterLoad, clip } = req.body;
+    const {
+      sheetUrl, messageTemplate, cellMappings, scheduleName, viewport, selector, waitAfterLoad, clip, range, presentation, image, output,
+      timezone,
+    } = req.body;
+
+    if (timezone && !isValidTimezone(timezone)) {
+      return res.status(400).json({ success: false, error: `Timezone inválido: ${timezone}` });
+    }
 
     if (!sheetUrl) {
       return res.status(400).json({ success: false, error: 'sheetUrl é obrigatório' });
@@ -782,20 +1149,50 @@ app.post('/api/test/preview', async (req, res) => {
 
     const config = reloadConfig();
 
-    logger.info('Gerando preview de teste', { sheetUrl, scheduleName, clip });
+    const rangeError = range ? validateA1Range(range) : null;
+    if (rangeError) {
+      return res.status(400).json({ success: false, error: `range inválido: ${rangeError}` });
+    }
+
+    const presentationError = presentation ? validatePresentation(presentation) : null;
+    if (presentationError) {
+      return res.status(400).json({ success: false, error: `presentation inválido: ${presentationError}` });
+    }
+
+    const imageError = image ? validateImageProcessing(image) : null;
+    if (imageError) {
+      return res.status(400).json({ success: false, error: `image inválido: ${imageError}` });
+    }
+
+    const outputError = output ? validateImageOutput(output) : null;
+    if (outputError) {
+      return res.status(400).json({ success: false, error: `output inválido: ${outputError}` });
+    }
+
+    logger.info('Gerando preview de teste', { sheetUrl, scheduleName, clip, range, presentation: presentation?.mode });
 
     // Inicializar browser
     await initBrowser(config.browser);
 
     // Capturar screenshot
+    let render: RenderTiming | undefined;
     const screenshot = await captureScreenshotWithRetry(
-      sheetUrl,
+      buildRangeUrl(sheetUrl, range),
       viewport || config.browser.defaultViewport,
       selector,
       waitAfterLoad || config.settings.waitAfterLoad,
       3,
-      clip
-    );
+      clip,
+      undefined,
+      timing => { render = timing; },
+      presentation || undefined
+    ).then(captured => prepareImage(
+      captured,
+      image || undefined,
+      output || config.settings.output,
+      scheduleName || 'Teste',
+      timezone || config.settings.timezone
+    ));
 
     // Buscar dados da planilha (se houver mapeamentos)
     let variables: Record<string, string> = {};
@@ -817,18 +1214,20 @@ app.post('/api/test/preview', async (req, res) => {
     const message = await createMessageWithSheetData(
       messageTemplate || '{scheduleName} - {date}',
       scheduleName || 'Teste',
-      config.settings.timezone,
+      timezone || config.settings.timezone,
       sheetUrl,
       cellMappings
     );
 
     // Converter screenshot para base64
-    const screenshotBase64 = `data:image/png;base64,${screenshot.toString('base64')}`;
+    const screenshotBase64 = toImageDataUri(screenshot);
 
     res.json({
       success: true,
       data: {
         screenshot: screenshotBase64,
+        bytes: screenshot.length, // Tamanho da imagem que seria enviada (após 'image' e 'output')
+        render, // Tempo até a planilha ficar pronta: { renderMs, ready }
         message,
         variables,
         sheetError, // Aviso sobre erro na planilha (se houver)
@@ -846,12 +1245,22 @@ app.post('/api/test/preview', async (req, res) => {
 // POST /api/test/screenshot - Testar captura de screenshot (sem schedule)
 app.post('/api/test/screenshot', async (req, res) => {
   try {
-    const { sheetUrl, viewport, selector, waitAfterLoad } = req.body;
+    const { sheetUrl, viewport, selector, waitAfterLoad, range, presentation } = req.body;
 
     if (!sheetUrl) {
       return res.status(400).json({ success: false, error: 'sheetUrl é obrigatório' });
     }
 
+    const rangeError = range ? validateA1Range(range) : null;
+    if (rangeError) {
+      return res.status(400).json({ success: false, error: `range inválido: ${rangeError}` });
+    }
+
+    const presentationError = presentation ? validatePresentation(presentation) : null;
+    if (presentationError) {
+      return res.status(400).json({ success: false, error: `presentation inválido: ${presentationError}` });
+    }
+
     const config = reloadConfig();
 
     logger.info('Capturando screenshot de teste', { sheetUrl });
@@ -861,14 +1270,19 @@ app.post('/api/test/screenshot', async (req, res) => {
 
     // Capturar screenshot
     const screenshot = await captureScreenshotWithRetry(
-      sheetUrl,
+      buildRangeUrl(sheetUrl, range),
       viewport || config.browser.defaultViewport,
       selector,
-      waitAfterLoad || config.settings.waitAfterLoad
+      waitAfterLoad || config.settings.waitAfterLoad,
+      3,
+      undefined,
+      undefined,
+      undefined,
+      presentation || undefined
     );
 
     // Converter para base64
-    const screenshotBase64 = `data:image/png;base64,${screenshot.toString('base64')}`;
+    const screenshotBase64 = toImageDataUri(screenshot);
 
     res.json({
       success: true,
@@ -921,7 +1335,11 @@ app.post('/api/test/sheet-data', async (req, res) => {
 // POST /api/test/message - Testar geração de mensagem
 app.post('/api/test/message', async (req, res) => {
   try {
-    const { messageTemplate, scheduleName, sheetUrl, cellMappings } = req.body;
+    const { messageTemplate, scheduleName, sheetUrl, cellMappings, timezone } = req.body;
+
+    if (timezone && !isValidTimezone(timezone)) {
+      return res.status(400).json({ success: false, error: `Timezone inválido: ${timezone}` });
+    }
 
     if (!messageTemplate) {
       return res.status(400).json({ success: false, error: 'messageTemplate é obrigatório' });
@@ -934,7 +1352,7 @@ app.post('/api/test/message', async (req, res) => {
     const message = await createMessageWithSheetData(
       messageTemplate,
       scheduleName || 'Teste',
-      config.settings.timezone,
+      timezone || config.settings.timezone,
       sheetUrl,
       cellMappings
     );
@@ -957,7 +1375,14 @@ app.post('/api/test/message', async (req, res) => {
 // POST /api/test/send - Enviar teste para um grupo específico
 app.post('/api/test/send', async (req, res) => {
   try {
-    const { sheetUrl, groupId, messageTemplate, cellMappings, scheduleName, screenshot: screenshotBase64, message: precomputedMessage } = req.body;
+    const {
+      sheetUrl, groupId, messageTemplate, cellMappings, scheduleId, scheduleName, screenshot: screenshotBase64,
+      message: precomputedMessage, timezone, override,
+    } = req.body;
+
+    if (timezone && !isValidTimezone(timezone)) {
+      return res.status(400).json({ success: false, error: `Timezone inválido: ${timezone}` });
+    }
 
     if (!groupId) {
       return res.status(400).json({ success: false, error: 'groupId é obrigatório' });
@@ -966,6 +1391,17 @@ app.post('/api/test/send', async (req, res) => {
     const config = reloadConfig();
     const client = getUazapiClient();
 
+    // Janela de envio do schedule testado (ou a global); recusar antes de capturar
+    const testedSchedule = scheduleId
+      ? config.schedules.find(s => s.id === scheduleId)
+      : config.schedules.find(s => s.name === scheduleName);
+    const guard: SendGuard = {
+      window: testedSchedule ? getSendWindow(testedSchedule, config.settings) : config.settings.sendWindow,
+      timezone: timezone || (testedSchedule ? getScheduleTimezone(testedSchedule, config.settings) : config.settings.timezone),
+      override: override === true,
+    };
+    assertSendAllowed(guard);
+
     // Verificar conexão
     const isConnected = await client.isConnected();
     if (!isConnected) {
@@ -1004,20 +1440,26 @@ app.post('/api/test/send', async (req, res) => {
         config.browser.defaultViewport,
         undefined,
         config.settings.waitAfterLoad
-      );
+      ).then(captured => prepareImage(
+        captured,
+        testedSchedule?.image,
+        testedSchedule ? getImageOutput(testedSchedule, config.settings) : config.settings.output,
+        scheduleName || 'Teste',
+        timezone || config.settings.timezone
+      ));
 
       // Criar mensagem
       message = await createMessageWithSheetData(
         messageTemplate,
         scheduleName || 'Teste',
-        config.settings.timezone,
+        timezone || config.settings.timezone,
         sheetUrl,
         cellMappings
       );
     }
 
     // Enviar
-    const result = await client.sendImage(groupId, screenshot, message);
+    const result = await client.sendImage(groupId, screenshot, message, guard);
 
     res.json({
       success: true,
@@ -1028,6 +1470,11 @@ app.post('/api/test/send', async (req, res) => {
       },
     });
   } catch (error) {
+    if (error instanceof SendWindowError) {
+      logger.warn('Envio de teste recusado', { error: error.message });
+      return res.status(403).json({ success: false, error: error.message });
+    }
+
     logger.error('Erro ao enviar teste', { error });
     res.status(500).json({
       success: false,
@@ -1041,7 +1488,7 @@ app.get('/api/status', (req, res) => {
   res.json({
     success: true,
     data: {
-      scheduler: scheduler?.getStatus() || { isRunning: false, tasks: [] },
+      scheduler: scheduler?.getStatus() || { isRunning: false, tasks: [], nextRuns: [] },
       uptime: process.uptime(),
     },
   });
@@ -1079,13 +1526,231 @@ app.post('/api/scheduler/stop', async (req, res) => {
   }
 });
 
+// ========== RUN HISTORY ROUTES ==========
+
+const runStatuses: RunStatus[] = ['running', 'success', 'partial', 'failed', 'skipped', 'cancelled'];
+
+// GET /api/runs - Listar execuções (filtros: schedule, status, from, to, limit)
+app.get('/api/runs', (req, res) => {
+  try {
+    const { schedule, status, from, to, limit } = req.query;
+    const filters: RunFilters = {};
+
+    if (typeof schedule === 'string' && schedule) {
+      filters.schedule = schedule;
+    }
+
+    if (typeof status === 'string' && status) {
+      if (!runStatuses.includes(status as RunStatus)) {
+        return res.status(400).json({ success: false, error: `status inválido: ${status}` });
+      }
+      filters.status = status as RunStatus;
+    }
+
+    for (const [key, value] of [['from', from], ['to', to]] as const) {
+      if (typeof value === 'string' && value) {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return res.status(400).json({ success: false, error: `Data inválida em '${key}': ${value}` });
+        }
+        filters[key] = date;
+      }
+    }
+
+    filters.limit = typeof limit === 'string' && parseInt(limit) > 0 ? parseInt(limit) : 100;
+
+    res.json({ success: true, data: runHistory.list(filters) });
+  } catch (error) {
+    logger.error('Erro ao listar execuções', { error });
+    res.status(500).json({ success: false, error: 'Erro ao listar execuções' });
+  }
+});
+
+// GET /api/runs/:id - Obter execução específica
+app.get('/api/runs/:id', (req, res) => {
+  try {
+    const run = runHistory.get(req.params.id);
+
+    if (!run) {
+      return res.status(404).json({ success: false, error: 'Execução não encontrada' });
+    }
+
+    res.json({ success: true, data: run });
+  } catch (error) {
+    logger.error('Erro ao obter execução', { error });
+    res.status(500).json({ success: false, error: 'Erro ao obter execução' });
+  }
+});
+
+// GET /api/runs/:id/events - Progresso da execução em tempo real (Server-Sent Events)
+// Eventos: run-started, capture-started, capture-finished, sheet-data-fetched, group-sent, group-failed, run-finished
+app.get('/api/runs/:id/events', (req, res) => {
+  const runId = req.params.id;
+  const run = runHistory.get(runId);
+
+  // A execução pode ainda estar aguardando o lock (sem registro no histórico)
+  if (!run && !scheduler?.isRunActive(runId) && runEvents.read(runId).length === 0) {
+    return res.status(404).json({ success: false, error: 'Execução não encontrada' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const writeEvent = (event: RunEvent) => {
+    res.write(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Execução antiga já finalizada (eventos removidos): enviar apenas o resumo
+  if (run && run.status !== 'running' && runEvents.read(runId).length === 0) {
+    writeEvent({
+      type: 'run-finished',
+      runId,
+      seq: 1,
+      at: run.finishedAt || run.startedAt,
+      status: run.status,
+      groupsTotal: run.groupsTotal,
+      groupsSuccess: run.groupsSuccess,
+      groupsFailed: run.groupsFailed,
+      durationMs: run.durationMs,
+      error: run.error,
+      skipReason: run.skipReason,
+    });
+    return res.end();
+  }
+
+  // Eventos são lidos do arquivo (a execução pode estar no outro processo)
+  let lastSeq = parseInt(String(req.headers['last-event-id'] || '0')) || 0;
+  let ticks = 0;
+
+  const poll = setInterval(() => {
+    for (const event of runEvents.read(runId, lastSeq)) {
+      writeEvent(event);
+      lastSeq = event.seq;
+
+      if (event.type === 'run-finished') {
+        clearInterval(poll);
+        return res.end();
+      }
+    }
+
+    // Comentário periódico para manter a conexão aberta em proxies
+    if (++ticks % 30 === 0) {
+      res.write(': ping\n\n');
+    }
+  }, 500);
+
+  req.on('close', () => clearInterval(poll));
+});
+
+// POST /api/runs/:id/cancel - Cancelar execução em andamento (neste ou no outro processo)
+app.post('/api/runs/:id/cancel', (req, res) => {
+  try {
+    const runId = req.params.id;
+
+    // Execução deste processo (inclusive aguardando o lock)
+    if (scheduler?.cancelRun(runId)) {
+      return res.json({ success: true, message: 'Cancelamento solicitado', data: { runId } });
+    }
+
+    const run = runHistory.get(runId);
+    if (!run) {
+      return res.status(404).json({ success: false, error: 'Execução não encontrada' });
+    }
+
+    if (run.status !== 'running') {
+      return res.status(409).json({ success: false, error: `Execução não está em andamento (status: ${run.status})` });
+    }
+
+    // Execução do outro processo: pedido via arquivo de cancelamento do lock
+    if (!scheduleLocks.cancelRun(run.scheduleId, run.id, USER_CANCEL_REASON)) {
+      return res.status(409).json({ success: false, error: 'Execução não está ativa em nenhum processo' });
+    }
+
+    res.json({ success: true, message: 'Cancelamento solicitado', data: { runId } });
+  } catch (error) {
+    logger.error('Erro ao cancelar execução', { error });
+    res.status(500).json({ success: false, error: 'Erro ao cancelar execução' });
+  }
+});
+
+// ========== WEBHOOK ROUTES ==========
+
+// GET /api/webhooks/deliveries - Log de entregas de webhooks (mais recentes primeiro)
+app.get('/api/webhooks/deliveries', (req, res) => {
+  try {
+    const limit = typeof req.query.limit === 'string' && parseInt(req.query.limit) > 0
+      ? parseInt(req.query.limit)
+      : 100;
+
+    res.json({ success: true, data: webhooks.list(limit) });
+  } catch (error) {
+    logger.error('Erro ao listar entregas de webhooks', { error });
+    res.status(500).json({ success: false, error: 'Erro ao listar entregas de webhooks' });
+  }
+});
+
+// ========== DIGEST ROUTES ==========
+
+// Montar resumo de um dia (?date=YYYY-MM-DD, padrão: hoje)
+function buildDigestFromQuery(config: AppConfig, dateParam: unknown): string {
+  const timezone = config.settings.timezone;
+  let date = new Date();
+
+  if (typeof dateParam === 'string' && dateParam) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateParam)) {
+      throw new Error(`Data inválida: ${dateParam} (use YYYY-MM-DD)`);
+    }
+    // Meio-dia UTC cai no mesmo dia local em qualquer timezone brasileiro
+    date = new Date(`${dateParam}T12:00:00Z`);
+  }
+
+  return createDigestMessage(getRunsOfDay(date, timezone), timezone, date, config.digest?.template);
+}
+
+// GET /api/digest/preview - Visualizar o resumo do dia sem enviar
+app.get('/api/digest/preview', (req, res) => {
+  try {
+    const config = reloadConfig();
+    res.json({
+      success: true,
+      data: {
+        message: buildDigestFromQuery(config, req.query.date),
+        digest: config.digest || null,
+      },
+    });
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Erro ao montar resumo';
+    res.status(400).json({ success: false, error: errorMsg });
+  }
+});
+
+// POST /api/digest/send - Enviar o resumo do dia agora
+app.post('/api/digest/send', async (req, res) => {
+  try {
+    const config = reloadConfig();
+    if (!config.digest) {
+      return res.status(400).json({ success: false, error: 'Resumo diário não configurado (seção digest)' });
+    }
+
+    const message = buildDigestFromQuery(config, req.body?.date);
+    await getUazapiClient().sendText(config.digest.recipient, message);
+
+    res.json({ success: true, message: 'Resumo enviado', data: { message } });
+  } catch (error) {
+    logger.error('Erro ao enviar resumo do dia', { error });
+    const errorMsg = error instanceof Error ? error.message : 'Erro ao enviar resumo';
+    res.status(500).json({ success: false, error: errorMsg });
+  }
+});
+
 // Função para reiniciar scheduler
-async function restartScheduler(): Promise<void> {
+// Aplicar config salvo ao scheduler (recria apenas as tasks dos schedules alterados)
+function reloadScheduler(): void {
   if (scheduler) {
-    await scheduler.stop();
-    const config = reloadConfig();
-    scheduler = new Scheduler(config);
-    await scheduler.start();
+    scheduler.reload(reloadConfig());
   }
 }
 
@@ -1097,6 +1762,7 @@ app.get('*', (req, res) => {
 // Tratamento de sinais
 async function shutdown(signal: string): Promise<void> {
   logger.info(`Recebido sinal ${signal}. Encerrando...`);
+  configWatcher.stop();
   if (scheduler) {
     await scheduler.stop();
   }
@@ -1105,6 +1771,7 @@ async function shutdown(signal: string): Promise<void> {
     uazapiClient.stopGroupSync();
   }
   await closeBrowser();
+  scheduleLocks.releaseAll();
   process.exit(0);
 }
 
@@ -1139,6 +1806,12 @@ app.listen(PORT, () => {
   logger.info(`Servidor rodando em http://localhost:${PORT}`);
   logger.info('Interface web disponível');
 
+  // Aplicar edições manuais do config.yaml sem reiniciar
+  configWatcher.start(configPath, newConfig => {
+    currentConfig = newConfig;
+    scheduler?.reload(newConfig);
+  });
+
   // Iniciar sincronização automática de grupos após startup
   setTimeout(() => {
     initializeGroupSync().catch(err => {
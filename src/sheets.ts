@@ -1,4 +1,5 @@
 import { logger } from './logger.js';
+import type { PresentationConfig, PresentationMode } from './types.js';
 
 // Configuração de mapeamento de células
 export interface CellMapping {
@@ -20,7 +21,7 @@ export function extractSheetId(url: string): string | null {
 
 // Extrair GID da aba a partir da URL
 export function extractGid(url: string): string | null {
-  const match = url.match(/[#&]gid=(\d+)/);
+  const match = url.match(/[?#&]gid=(\d+)/);
   return match ? match[1] : null;
 }
 
@@ -236,3 +237,97 @@ export function resolveTabToGid(baseUrl: string, tabIdentifier: string): string
   // Tentar buscar do mapa conhecido
   return getGidByTabName(sheetId, tabIdentifier);
 }
+
+// ========== A1 RANGE CAPTURE ==========
+// Captura por intervalo (ex: "A1:H25") usando a visualização HTML da planilha (/htmlview)
+// A camada de captura lê o parâmetro 'range' da URL e recorta exatamente as células do intervalo
+
+const A1_RANGE_PATTERN = /^([A-Z]{1,3})([1-9]\d*):([A-Z]{1,3})([1-9]\d*)$/;
+
+export interface A1Range {
+  startColumn: string;  // Letras da coluna, ex: "A"
+  startRow: number;
+  endColumn: string;
+  endRow: number;
+}
+
+// Converter letras da coluna em índice (A = 1, Z = 26, AA = 27)
+function columnIndex(column: string): number {
+  return [...column].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0);
+}
+
+// Interpretar intervalo A1 (retorna null se inválido); aceita os cantos em qualquer ordem
+export function parseA1Range(range: string): A1Range | null {
+  const match = String(range).trim().toUpperCase().match(A1_RANGE_PATTERN);
+  if (!match) return null;
+
+  const [, colA, rowA, colB, rowB] = match;
+  const [startColumn, endColumn] = columnIndex(colA) <= columnIndex(colB) ? [colA, colB] : [colB, colA];
+
+  return {
+    startColumn,
+    startRow: Math.min(Number(rowA), Number(rowB)),
+    endColumn,
+    endRow: Math.max(Number(rowA), Number(rowB)),
+  };
+}
+
+// Validar intervalo configurado (retorna mensagem de erro ou null)
+export function validateA1Range(range: string): string | null {
+  return parseA1Range(range) ? null : `intervalo deve estar no formato A1:H25: ${JSON.stringify(range)}`;
+}
+
+// Construir URL de captura do intervalo (aba pelo gid da URL informada)
+export function buildRangeUrl(sheetUrl: string, range?: string): string {
+  const parsed = range ? parseA1Range(range) : null;
+  const sheetId = extractSheetId(sheetUrl);
+  if (!parsed || !sheetId) {
+    return sheetUrl;
+  }
+
+  const gid = extractGid(sheetUrl) || '0';
+  const normalized = `${parsed.startColumn}${parsed.startRow}:${parsed.endColumn}${parsed.endRow}`;
+  return `https://docs.google.com/spreadsheets/d/${sheetId}/htmlview?gid=${gid}&range=${normalized}`;
+}
+
+// Obter intervalo de uma URL de captura gerada por buildRangeUrl (ou null)
+export function extractCaptureRange(url: string): A1Range | null {
+  const match = url.match(/\/htmlview\?(.*)$/);
+  if (!match) return null;
+
+  const range = new URLSearchParams(match[1]).get('range');
+  return range ? parseA1Range(range) : null;
+}
+
+const PRESENTATION_MODES: PresentationMode[] = ['editor', 'minimal', 'htmlview'];
+
+// Validar apresentação configurada (retorna mensagem de erro ou null)
+export function validatePresentation(presentation: PresentationConfig): string | null {
+  if (!presentation || !PRESENTATION_MODES.includes(presentation.mode)) {
+    return `'mode' deve ser ${PRESENTATION_MODES.join(', ')}: ${JSON.stringify(presentation?.mode)}`;
+  }
+  for (const key of ['gridlines', 'headers'] as const) {
+    if (presentation[key] !== undefined && typeof presentation[key] !== 'boolean') {
+      return `'${key}' deve ser true ou false`;
+    }
+  }
+  if (presentation.headerRows !== undefined
+    && (!Number.isInteger(presentation.headerRows) || presentation.headerRows < 0)) {
+    return `'headerRows' deve ser um número inteiro maior ou igual a 0: ${JSON.stringify(presentation.headerRows)}`;
+  }
+  return null;
+}
+
+// Construir URL da visualização de apresentação (sem barras do editor)
+// URLs /htmlview (ex: captura por intervalo) são mantidas
+export function buildPresentationUrl(sheetUrl: string, mode: PresentationMode = 'editor'): string {
+  const sheetId = extractSheetId(sheetUrl);
+  if (mode === 'editor' || !sheetId || sheetUrl.includes('/htmlview')) {
+    return sheetUrl;
+  }
+
+  const gid = extractGid(sheetUrl) || '0';
+  return mode === 'minimal'
+    ? `https://docs.google.com/spreadsheets/d/${sheetId}/edit?rm=minimal#gid=${gid}`
+    : `https://docs.google.com/spreadsheets/d/${sheetId}/htmlview?gid=${gid}`;
+}
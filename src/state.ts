@@ -0,0 +1,60 @@
+import { logger } from './logger.js';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './storage.js';
+import type { RunFingerprint } from './fingerprint.js';
+
+// ========== SCHEDULER STATE ==========
+// Estado persistente por schedule: último disparo (recuperar execuções perdidas)
+// impressão digital do último envio bem-sucedido (sendOnlyOnChange) e trava diária de alertas
+
+export interface ScheduleState {
+  lastFiredAt?: string; // ISO 8601
+  lastSent?: RunFingerprint & { runId: string; sentAt: string };
+  alertSentOn?: string;  // YYYY-MM-DD (timezone do schedule) do último alerta enviado
+}
+
+class SchedulerState {
+  private readonly filePath = dataPath('scheduler-state.json');
+
+  private load(): Record<string, ScheduleState> {
+    return readJsonFile<Record<string, ScheduleState>>(this.filePath, {});
+  }
+
+  // Obter estado de um schedule
+  get(key: string): ScheduleState {
+    return this.load()[key] || {};
+  }
+
+  // Atualizar estado de um schedule (com lock: index.ts e server.ts gravam no mesmo arquivo)
+  private update(key: string, patch: Partial<ScheduleState>): void {
+    try {
+      withFileLock(this.filePath, () => {
+        const state = this.load();
+        state[key] = { ...state[key], ...patch };
+        writeJsonFile(this.filePath, state);
+      });
+    } catch (error) {
+      logger.error('Erro ao salvar estado do scheduler', {
+        key,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  // Registrar horário do último disparo
+  markFired(key: string, firedAt: Date): void {
+    this.update(key, { lastFiredAt: firedAt.toISOString() });
+  }
+
+  // Registrar dia do último alerta enviado (trava "uma vez por dia")
+  markAlertSent(key: string, day: string): void {
+    this.update(key, { alertSentOn: day });
+  }
+
+  // Registrar impressão digital do último envio bem-sucedido
+  markSent(key: string, fingerprint: RunFingerprint, runId: string): void {
+    this.update(key, { lastSent: { ...fingerprint, runId, sentAt: new Date().toISOString() } });
+  }
+}
+
+// Instância global do estado
+export const schedulerState = new SchedulerState();
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+
+// Diretório de dados persistentes (histórico, filas, estado)
+export const dataDir = process.env.DATA_DIR || './data';
+
+// Resolver caminho dentro do diretório de dados
+export function dataPath(...segments: string[]): string {
+  return path.resolve(dataDir, ...segments);
+}
+
+// Ler arquivo JSON (retorna fallback se não existir ou estiver corrompido)
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (error) {
+    logger.error('Erro ao ler arquivo de dados', {
+      filePath,
+      error: error instanceof Error ? error.message : error,
+    });
+    return fallback;
+  }
+}
+
+// Gravar arquivo JSON de forma atômica (arquivo temporário + rename)
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+// ========== FILE LOCK ==========
+// Exclusão mútua entre processos (index.ts e server.ts) para ler-alterar-gravar um arquivo de dados
+// O lock é o arquivo <arquivo>.lock criado com a flag 'wx' (atômica), como em lock.ts
+
+const FILE_LOCK_TIMEOUT = 10 * 1000;
+const FILE_LOCK_MAX_AGE = 30 * 1000; // As operações protegidas são síncronas e curtas
+const FILE_LOCK_POLL = 20;
+
+// Esperar sem liberar o event loop (as operações protegidas são síncronas)
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+// Lock abandonado: processo morto ou muito antigo
+function isStaleFileLock(lockPath: string): boolean {
+  const holder = readJsonFile<{ pid: number; acquiredAt: number } | null>(lockPath, null);
+  if (!holder) return true;
+  if (Date.now() - holder.acquiredAt > FILE_LOCK_MAX_AGE) return true;
+  if (holder.pid === process.pid) return false;
+
+  try {
+    process.kill(holder.pid, 0);
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code !== 'EPERM';
+  }
+}
+
+// Executar 'fn' com o arquivo bloqueado para os outros processos
+export function withFileLock<T>(filePath: string, fn: () => T): T {
+  const lockPath = `${filePath}.lock`;
+  const startTime = Date.now();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      if (isStaleFileLock(lockPath)) {
+        logger.warn('Removendo lock de arquivo abandonado', { filePath });
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() - startTime > FILE_LOCK_TIMEOUT) {
+        throw new Error(`Tempo de espera pelo lock de ${filePath} esgotado`);
+      }
+      sleepSync(FILE_LOCK_POLL);
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
@@ -6,9 +6,9 @@ import { fetchSheetData } from './sheets.js';
 export function createTemplateVariables(
   scheduleName: string,
   timezone: string = 'America/Sao_Paulo',
-  sheetData?: Record<string, string>
+  sheetData?: Record<string, string>,
+  now: Date = new Date()  // Data de referência (ex: dia do resumo diário)
 ): TemplateVariables {
-  const now = new Date();
 
   const dateFormatter = new Intl.DateTimeFormat('pt-BR', {
     timeZone: timezone,
@@ -71,39 +71,181 @@ export interface ClipConfig {
   height: number; // Altura do recorte
 }
 
+// Visualização usada na captura
+// editor: /edit (padrão), minimal: /edit?rm=minimal sem barras, htmlview: tabela HTML só com os dados
+export type PresentationMode = 'editor' | 'minimal' | 'htmlview';
+
+export interface PresentationConfig {
+  mode: PresentationMode;
+  gridlines?: boolean;   // Linhas de grade (padrão: true; htmlview e range)
+  headers?: boolean;     // Cabeçalhos de linha/coluna (padrão: false; htmlview sem range)
+  headerRows?: number;   // Linhas do topo repetidas acima do intervalo (range), ex: cabeçalho congelado
+}
+
+// Pós-processamento da imagem antes do envio
+export interface ImageBannerConfig {
+  text?: string;        // Template (padrão: "{scheduleName} - {datetime}")
+  background?: string;  // Cor de fundo (padrão: #075e54)
+  color?: string;       // Cor do texto (padrão: #ffffff)
+  fontSize?: number;    // Tamanho da fonte em px (padrão: 28)
+}
+
+export interface ImageWatermarkConfig {
+  path: string;  // Arquivo local (PNG, JPEG, WebP ou SVG)
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';  // Padrão: bottom-right
+  width?: number;    // Largura do logo em px (padrão: 120)
+  opacity?: number;  // 0 a 1 (padrão: 0.8)
+}
+
+export interface ImageProcessingConfig {
+  trim?: boolean;       // Remover bordas com a cor do canto superior esquerdo
+  padding?: number;     // Margem em volta da captura (px)
+  background?: string;  // Cor da margem (padrão: #ffffff)
+  banner?: ImageBannerConfig;        // Faixa de título acima da captura
+  watermark?: ImageWatermarkConfig;  // Logo sobre a imagem
+  maxWidth?: number;    // Reduzir proporcionalmente até esta largura (px)
+}
+
+// Formato da imagem enviada (a captura é sempre PNG; a conversão é feita depois do pós-processamento)
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ImageOutputConfig {
+  format: ImageFormat;
+  quality?: number;   // 1 a 100, para jpeg e webp (padrão: 85)
+  maxBytes?: number;  // Tamanho máximo: reduz qualidade e depois dimensões até caber
+}
+
 // Configuração de aba específica para um grupo
 export interface SheetTabConfig {
   groupId: string;
   groupName?: string;
   tabName: string;      // Nome da aba (gid) ex: "Vendas", "Resumo"
   tabGid?: string;      // ID da aba no Google Sheets (gid=xxx)
+  range?: string;       // Intervalo capturado nesta aba (sobrescreve o do schedule)
 }
 
+// Política quando um schedule dispara enquanto a execução anterior ainda roda
+export type OverlapPolicy = 'skip' | 'queue' | 'cancel-previous';
+
 export interface ScheduleConfig {
+  id: string;    // UUID estável (gerado automaticamente ao carregar o config)
   name: string;
   sheetUrl: string;
   groups: string[];
-  cron: string;
+  cron: string | string[];  // Uma ou mais expressões cron (ex: horários com minutos diferentes)
   messageTemplate: string;
   viewport?: ViewportConfig;
   selector?: string;
   clip?: ClipConfig;  // Região de recorte do screenshot
+  range?: string;     // Intervalo A1 capturado (ex: "A1:H25"); tem prioridade sobre clip e selector
+  presentation?: PresentationConfig;  // Visualização sem barras do editor (padrão: editor)
+  image?: ImageProcessingConfig;      // Pós-processamento da imagem antes do envio
+  output?: ImageOutputConfig;         // Formato da imagem enviada (sobrescreve settings.output)
   waitAfterLoad?: number;
   sheetTabs?: SheetTabConfig[];  // Configuração de abas por grupo
   cellMappings?: CellMapping[];  // Mapeamento de células para variáveis
+  missedRunPolicy?: 'run' | 'skip';  // O que fazer com disparos perdidos (padrão: skip)
+  missedRunGraceMinutes?: number;    // Janela de tolerância (sobrescreve settings)
+  overlapPolicy?: OverlapPolicy;     // Padrão: skip
+  enabled?: boolean;                 // false = pausado (padrão: true)
+  resumeAt?: string;                 // Retomar automaticamente (ISO 8601 ou YYYY-MM-DD)
+  skipHolidays?: boolean;            // Não enviar em feriados nacionais e bloqueios
+  timezone?: string;                 // Timezone do schedule (sobrescreve settings.timezone)
+  sendWindow?: SendWindowConfig;     // Janela de envio do schedule (sobrescreve settings.sendWindow)
+  sendOnlyOnChange?: boolean;        // Só enviar se as células mapeadas mudaram desde o último envio
+  compareScreenshot?: boolean;       // Com sendOnlyOnChange: comparar também a imagem capturada
+  alert?: AlertRuleConfig;           // Schedule de alerta: só envia quando a condição for atendida
+}
+
+// Regra de alerta sobre células mapeadas
+export interface AlertRuleConfig {
+  condition: string | string[];  // Ex: "atingimento < 70%", "vendasDia >= meta"
+  match?: 'all' | 'any';         // Várias condições: todas (padrão) ou qualquer uma
+  messageTemplate: string;       // Template da mensagem de alerta
+  oncePerDay?: boolean;          // Enviar no máximo uma vez por dia
+}
+
+// Configuração da fila de reenvio de grupos com falha
+export interface RetrySettings {
+  enabled: boolean;
+  maxAttempts: number;   // Tentativas de reenvio por grupo
+  initialDelay: number;  // Espera antes da 1ª tentativa (ms), dobra a cada falha
+  maxAge: number;        // Idade máxima de um envio pendente (ms)
+  checkInterval: number; // Intervalo de verificação da fila (ms)
+}
+
+// Eventos enviados aos webhooks
+export type WebhookEventType = 'run.started' | 'run.finished' | 'group.failed' | 'whatsapp.disconnected';
+
+// Destino de webhook (POST JSON assinado com HMAC-SHA256)
+export interface WebhookTarget {
+  url: string;
+  secret: string;                // Chave usada na assinatura (header X-Webhook-Signature)
+  events?: WebhookEventType[];   // Eventos assinados (padrão: todos)
+}
+
+export interface WebhookSettings {
+  targets: WebhookTarget[];
+  maxAttempts: number;   // Tentativas por entrega
+  initialDelay: number;  // Espera antes da 2ª tentativa (ms), dobra a cada falha
+  timeout: number;       // Tempo limite de cada requisição (ms)
+}
+
+// Janela em que envios são permitidos
+export interface SendWindowConfig {
+  start: string;        // HH:mm
+  end: string;          // HH:mm (exclusivo); menor que start cruza a meia-noite
+  weekdays?: number[];  // 0 = domingo ... 6 = sábado (padrão: todos)
 }
 
+// Data (YYYY-MM-DD) ou intervalo sem envios
+export type BlackoutDate = string | {
+  start: string;  // YYYY-MM-DD
+  end?: string;   // YYYY-MM-DD (inclusivo)
+  name?: string;
+};
+
 export interface SettingsConfig {
   timezone: string;
   delayBetweenMessages: number;
   delayBetweenGroups: number;
   pageTimeout: number;
   waitAfterLoad: number;
+  retry: RetrySettings;
+  missedRunGraceMinutes: number;  // Janela para recuperar disparos perdidos
+  blackoutDates: BlackoutDate[];  // Datas/intervalos bloqueados (além dos feriados nacionais)
+  webhooks: WebhookSettings;
+  sendWindow?: SendWindowConfig;  // Janela global de envio (schedules podem definir a sua)
+  output?: ImageOutputConfig;     // Formato padrão das imagens enviadas (padrão: png)
+}
+
+// Detecção de planilha pronta antes da captura (em vez de esperar waitAfterLoad fixo)
+export interface RenderReadinessConfig {
+  enabled: boolean;
+  timeout: number;        // Espera máxima pela estabilização (ms); depois usa waitAfterLoad
+  stableFrames: number;   // Quadros idênticos consecutivos exigidos
+  frameInterval: number;  // Intervalo entre quadros (ms)
 }
 
 export interface BrowserConfig {
   headless: boolean;
   defaultViewport: ViewportConfig;
+  renderReadiness: RenderReadinessConfig;
+}
+
+// Avisos de falha para administradores (WhatsApp fora do ar, captura com erro)
+export interface AdminAlertsConfig {
+  recipients: string[];   // Números (5511999999999) ou grupos (JID completo ...@g.us)
+  dedupMinutes: number;   // Janela em que o mesmo aviso não é repetido
+  fallbackFile?: string;  // Arquivo usado quando o WhatsApp está fora (padrão: DATA_DIR/admin-alerts.log)
+}
+
+// Resumo diário das execuções enviado aos administradores
+export interface DigestConfig {
+  enabled?: boolean;    // Padrão: true
+  time: string;         // HH:mm (timezone de settings)
+  recipient: string;    // Grupo (JID completo ...@g.us) ou número
+  template?: string;    // Texto com variáveis {summary}, {failures}, ... (padrão: DEFAULT_DIGEST_TEMPLATE)
 }
 
 export interface AppConfig {
@@ -111,6 +253,8 @@ export interface AppConfig {
   uazapi?: UazapiConfig;
   settings: SettingsConfig;
   browser: BrowserConfig;
+  alerts?: AdminAlertsConfig;
+  digest?: DigestConfig;
   schedules: ScheduleConfig[];
 }
 
@@ -192,3 +336,45 @@ export interface EvolutionInstanceInfo {
   profileName?: string;
   profilePictureUrl?: string;
 }
+
+// Tipos para histórico de execuções
+export type RunTrigger = 'cron' | 'manual' | 'cli' | 'catch-up';
+
+export type RunStatus = 'running' | 'success' | 'partial' | 'failed' | 'skipped' | 'cancelled';
+
+export interface RunGroupResult {
+  groupId: string;
+  status: 'sent' | 'failed' | 'retrying' | 'dry-run' | 'cancelled';  // dry-run: gravado em arquivo, sem envio
+  messageId?: string;
+  outputFile?: string; // Imagem gravada pela simulação (dry-run)
+  jid?: string;        // JID de destino que seria usado no envio (dry-run)
+  error?: string;
+  attempts?: number;   // Tentativas de reenvio pela fila de retry
+  finishedAt: string;  // ISO 8601
+}
+
+export interface RunRecord {
+  id: string;
+  scheduleId: string;
+  scheduleName: string;
+  trigger: RunTrigger;
+  status: RunStatus;
+  dryRun?: boolean;      // Simulação: nada foi enviado ao WhatsApp
+  scheduledFor?: string; // Horário previsto (execuções recuperadas)
+  skipReason?: string;
+  overlap?: {          // Decisão do lock quando havia outra execução em andamento
+    policy: OverlapPolicy;
+    waitedMs: number;
+    cancelledRunId?: string;
+  };
+  startedAt: string;   // ISO 8601
+  finishedAt?: string; // ISO 8601
+  durationMs?: number;
+  captureMs?: number;  // Tempo total gasto nas capturas
+  renderMs?: number;   // Maior espera até a planilha ficar pronta (render readiness)
+  groupsTotal: number;
+  groupsSuccess: number;
+  groupsFailed: number;
+  groups: RunGroupResult[];
+  error?: string;
+}
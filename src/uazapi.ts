@@ -6,6 +6,9 @@ import type {
   UazapiSendMediaResponse,
   UazapiGroup,
 } from './types.js';
+import type { RunEventListener } from './events.js';
+import { assertSendAllowed, type SendGuard } from './send-window.js';
+import { imageMimeType, toImageDataUri } from './image-format.js';
 
 // ========== GROUP CACHE ==========
 // Cache de grupos com sincronização automática
@@ -256,8 +259,8 @@ export class UazapiClient {
     };
   }
 
-  // Formatar número do grupo para JID
-  private formatGroupJid(groupId: string): string {
+  // Formatar número do grupo para JID (destino usado no envio; também exibido na simulação)
+  formatGroupJid(groupId: string): string {
     // Se já é um JID completo, retornar
     if (groupId.includes('@g.us')) {
       return groupId;
@@ -268,14 +271,36 @@ export class UazapiClient {
     return `${cleaned}@g.us`;
   }
 
+  // Enviar texto para um número ou grupo (JID completo)
+  async sendText(recipient: string, text: string): Promise<UazapiSendMediaResponse> {
+    const number = recipient.includes('@') ? recipient : recipient.replace(/[^\d]/g, '');
+
+    const response = await this.request<UazapiSendMediaResponse>(
+      '/send/text',
+      'POST',
+      { number, text }
+    );
+
+    logger.info('Texto enviado via UAZAPI', {
+      number,
+      messageId: response.messageId || response.id,
+    });
+
+    return response;
+  }
+
   // Enviar imagem (usando endpoint /send/media conforme documentação UAZAPI v2)
+  // 'guard' é obrigatório: todo envio passa pela verificação da janela de envio
   async sendImage(
     groupId: string,
     imageBuffer: Buffer,
-    caption: string
+    caption: string,
+    guard: SendGuard
   ): Promise<UazapiSendMediaResponse> {
+    assertSendAllowed(guard);
+
     const jid = this.formatGroupJid(groupId);
-    const base64Image = `data:image/png;base64,${imageBuffer.toString('base64')}`;
+    const base64Image = toImageDataUri(imageBuffer);
 
     // Formato conforme documentação: https://docs.uazapi.com/endpoint/post/send~media
     const body = {
@@ -289,6 +314,7 @@ export class UazapiClient {
       groupId: jid,
       captionLength: caption.length,
       imageSize: imageBuffer.length,
+      mimeType: imageMimeType(imageBuffer),
     });
 
     const response = await this.request<UazapiSendMediaResponse>(
@@ -310,23 +336,43 @@ export class UazapiClient {
     groups: string[],
     imageBuffer: Buffer,
     caption: string,
-    delayBetweenGroups: number = 5000
+    guard: SendGuard,
+    delayBetweenGroups: number = 5000,
+    signal?: AbortSignal,
+    onEvent?: RunEventListener
   ): Promise<Map<string, UazapiSendMediaResponse | Error>> {
     const results = new Map<string, UazapiSendMediaResponse | Error>();
 
     for (let i = 0; i < groups.length; i++) {
       const groupId = groups[i];
 
+      // Interromper se a execução foi cancelada (grupos restantes ficam fora do resultado)
+      if (signal?.aborted) {
+        logger.warn('Envio para grupos interrompido (execução cancelada)', {
+          sent: i,
+          total: groups.length,
+        });
+        break;
+      }
+
       try {
         logger.info(`Enviando para grupo ${i + 1}/${groups.length}`, { groupId });
-        const response = await this.sendImage(groupId, imageBuffer, caption);
+        const response = await this.sendImage(groupId, imageBuffer, caption, guard);
         results.set(groupId, response);
+        onEvent?.({
+          type: 'group-sent',
+          groupId,
+          index: i + 1,
+          total: groups.length,
+          messageId: response.messageId || response.id,
+        });
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
         logger.error(`Erro ao enviar para grupo ${groupId}`, {
           error: err.message,
         });
         results.set(groupId, err);
+        onEvent?.({ type: 'group-failed', groupId, index: i + 1, total: groups.length, error: err.message });
       }
 
       // Aguardar entre envios (exceto no último)
@@ -338,7 +384,7 @@ export class UazapiClient {
 
     // Log resumo
     const successful = [...results.values()].filter(r => !(r instanceof Error)).length;
-    const failed = groups.length - successful;
+    const failed = results.size - successful;
 
     logger.info('Envio para grupos concluído', {
       total: groups.length,
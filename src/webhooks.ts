@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from './logger.js';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './storage.js';
+import type { WebhookEventType, WebhookSettings, WebhookTarget } from './types.js';
+
+// ========== WEBHOOKS ==========
+// POST JSON assinado (HMAC-SHA256 do corpo) para cada destino configurado em settings.webhooks
+// Falhas são repetidas com backoff exponencial; cada entrega fica registrada em DATA_DIR/webhook-deliveries.json
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEventType;
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;     // ISO 8601
+  lastAttemptAt?: string; // ISO 8601
+}
+
+// Assinatura enviada no header X-Webhook-Signature
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+class Webhooks {
+  private readonly filePath = dataPath('webhook-deliveries.json');
+  private readonly MAX_DELIVERIES = 500;
+  private pending: Set<Promise<void>> = new Set();  // Entregas em andamento neste processo
+
+  private load(): WebhookDelivery[] {
+    return readJsonFile<WebhookDelivery[]>(this.filePath, []);
+  }
+
+  // Atualizar (ou inserir) uma entrega no log (com lock: os dois processos disparam webhooks)
+  private record(delivery: WebhookDelivery): void {
+    try {
+      withFileLock(this.filePath, () => {
+        const deliveries = this.load().filter(d => d.id !== delivery.id);
+        deliveries.push(delivery);
+        writeJsonFile(this.filePath, deliveries.slice(-this.MAX_DELIVERIES));
+      });
+    } catch (error) {
+      logger.error('Erro ao salvar log de webhooks', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  // Disparar um evento para os destinos que o assinam (não bloqueia o chamador)
+  dispatch(event: WebhookEventType, data: unknown, settings: WebhookSettings): void {
+    const targets = settings.targets.filter(t => !t.events?.length || t.events.includes(event));
+
+    for (const target of targets) {
+      const id = uuidv4();
+      const body = JSON.stringify({ id, event, timestamp: new Date().toISOString(), data });
+      const delivery: WebhookDelivery = {
+        id,
+        event,
+        url: target.url,
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date().toISOString(),
+      };
+
+      this.record(delivery);
+      const pending = this.deliver(delivery, target, body, settings).catch(error => {
+        logger.error('Erro inesperado ao entregar webhook', {
+          url: target.url,
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+      this.pending.add(pending);
+      pending.finally(() => this.pending.delete(pending));
+    }
+  }
+
+  // Enviar com novas tentativas (initialDelay, 2x, 4x, ...)
+  private async deliver(
+    delivery: WebhookDelivery,
+    target: WebhookTarget,
+    body: string,
+    settings: WebhookSettings
+  ): Promise<void> {
+    while (delivery.attempts < settings.maxAttempts) {
+      delivery.attempts++;
+      delivery.lastAttemptAt = new Date().toISOString();
+
+      try {
+        const response = await fetch(target.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Id': delivery.id,
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Signature': signWebhookBody(body, target.secret),
+          },
+          body,
+          signal: AbortSignal.timeout(settings.timeout),
+        });
+
+        delivery.responseStatus = response.status;
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        delivery.status = 'delivered';
+        delivery.error = undefined;
+        this.record(delivery);
+        logger.debug('Webhook entregue', { event: delivery.event, url: target.url });
+        return;
+      } catch (error) {
+        delivery.error = error instanceof Error ? error.message : String(error);
+        logger.warn(`Falha ao entregar webhook (tentativa ${delivery.attempts}/${settings.maxAttempts})`, {
+          event: delivery.event,
+          url: target.url,
+          error: delivery.error,
+        });
+      }
+
+      if (delivery.attempts < settings.maxAttempts) {
+        this.record(delivery);
+        const delay = settings.initialDelay * Math.pow(2, delivery.attempts - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    delivery.status = 'failed';
+    this.record(delivery);
+    logger.error('Webhook descartado após esgotar as tentativas', {
+      event: delivery.event,
+      url: target.url,
+      error: delivery.error,
+    });
+  }
+
+  // Aguardar as entregas em andamento (antes de encerrar o processo), com tempo limite
+  // Novas tentativas ainda pendentes no fim do prazo são abandonadas e ficam como 'pending' no log
+  async flush(timeout: number = 30000): Promise<void> {
+    if (this.pending.size === 0) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(true), timeout);
+    });
+    const done = Promise.allSettled([...this.pending]).then(() => false);
+
+    const timedOut = await Promise.race([done, expired]);
+    clearTimeout(timer);
+
+    if (timedOut) {
+      logger.warn('Entregas de webhook não concluídas antes de encerrar', { pending: this.pending.size });
+    }
+  }
+
+  // Obter entregas mais recentes primeiro
+  list(limit: number = 100): WebhookDelivery[] {
+    return this.load().reverse().slice(0, limit);
+  }
+}
+
+// Instância global de webhooks
+export const webhooks = new Webhooks();
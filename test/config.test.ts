@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig, parseResumeAt, saveConfig } from '../src/config.js';
+
+const CONFIG = `uazapi:
+  baseUrl: "https://uazapi.example.com"
+  token: "token"
+  instanceId: "instance"
+
+alerts:
+  recipients: ["5511999999999"]
+  dedupMinutes: 30
+
+digest:
+  time: "19:00"
+  recipient: "5511988888888"
+
+schedules:
+  - id: "metas"
+    name: "Metas"
+    sheetUrl: "https://docs.google.com/spreadsheets/d/abc/edit#gid=0"
+    groups: ["120363000000000000"]
+    cron: "0 9 * * 1-5"
+    messageTemplate: "Metas {date}"
+`;
+
+function writeTempConfig(content: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+  const file = path.join(dir, 'config.yaml');
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+test('salvar pela API preserva os blocos alerts e digest', () => {
+  const file = writeTempConfig(CONFIG);
+
+  const config = loadConfig(file);
+  config.schedules[0].name = 'Metas do dia';
+  saveConfig(config, file);
+
+  const reloaded = loadConfig(file);
+  assert.equal(reloaded.schedules[0].name, 'Metas do dia');
+  assert.deepEqual(reloaded.alerts?.recipients, ['5511999999999']);
+  assert.equal(reloaded.alerts?.dedupMinutes, 30);
+  assert.deepEqual(reloaded.digest, { time: '19:00', recipient: '5511988888888' });
+
+  fs.rmSync(path.dirname(file), { recursive: true, force: true });
+});
+
+test('resumeAt só com data é a meia-noite no timezone informado', () => {
+  assert.equal(parseResumeAt('2026-11-02', 'America/Sao_Paulo')?.toISOString(), '2026-11-02T03:00:00.000Z');
+  assert.equal(parseResumeAt('2026-11-02', 'America/Manaus')?.toISOString(), '2026-11-02T04:00:00.000Z');
+  assert.equal(parseResumeAt('2026-11-02T08:00:00Z', 'America/Sao_Paulo')?.toISOString(), '2026-11-02T08:00:00.000Z');
+});
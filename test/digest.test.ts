@@ -0,0 +1,8 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDigestMessage } from '../src/digest.js';
+
+test('resumo usa a data do dia resumido em {date}', () => {
+  const message = createDigestMessage([], 'America/Sao_Paulo', new Date('2026-03-10T12:00:00Z'), 'Resumo {date} ({weekday})');
+  assert.equal(message, 'Resumo 10/03/2026 (terça-feira)');
+});
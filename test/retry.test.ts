@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'retry-test-'));
+const { retryQueue } = await import('../src/retry.js');
+
+const settings = { enabled: true, maxAttempts: 3, initialDelay: 0, maxAge: 60 * 60 * 1000, checkInterval: 1000 };
+const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+test('cancelar a execução remove seus reenvios pendentes', async () => {
+  const enqueue = (runId: string, groupId: string) => retryQueue.enqueue(
+    { runId, scheduleId: 'metas', scheduleName: 'Metas', groupId, image, caption: 'Metas', error: 'timeout' },
+    settings
+  );
+  enqueue('run-1', 'grupo-1');
+  enqueue('run-2', 'grupo-2');
+
+  assert.deepEqual(await retryQueue.cancelRun('run-1'), ['grupo-1']);
+  assert.deepEqual(retryQueue.getPending().map(j => j.runId), ['run-2']);
+
+  // Nada da execução cancelada é reenviado depois
+  const sent: string[] = [];
+  await retryQueue.process(settings, async job => {
+    sent.push(job.runId);
+    return { id: 'msg' };
+  }, () => {}, 0);
+  assert.deepEqual(sent, ['run-2']);
+
+  fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true });
+});